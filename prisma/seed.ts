@@ -0,0 +1,48 @@
+import 'dotenv/config';
+import bcrypt from 'bcrypt';
+import { PrismaClient } from '@prisma/client';
+import { normalizeEmail } from '../src/utils/email';
+
+const prisma = new PrismaClient();
+
+// Buat admin pertama dari ADMIN_EMAIL / ADMIN_PASSWORD (jika email sudah terdaftar, role-nya dinaikkan ke admin)
+async function main() {
+  const email = process.env.ADMIN_EMAIL && normalizeEmail(process.env.ADMIN_EMAIL);
+  const password = process.env.ADMIN_PASSWORD;
+  if (!email || !password) throw new Error('ADMIN_EMAIL and ADMIN_PASSWORD must be set to seed the first admin');
+
+  const admin = await prisma.users.upsert({
+    where: { email },
+    update: { role: 'admin' },
+    create: {
+      email,
+      username: process.env.ADMIN_USERNAME ?? 'admin',
+      password: await bcrypt.hash(password, 10),
+      role: 'admin',
+    },
+  });
+  console.log(`Admin ready: ${admin.email}`);
+
+  // Buku lama (sebelum ada ledger) diberi saldo awal supaya SUM(stock_movements.quantity) = stock_quantity
+  const books = await prisma.books.findMany({ where: { stock_movements: { none: {} }, stock_quantity: { not: 0 } } });
+  for (const book of books) {
+    await prisma.stock_movements.create({
+      data: {
+        book_id: book.id,
+        type: 'adjustment',
+        quantity: book.stock_quantity,
+        balance_after: book.stock_quantity,
+        reason: 'Opening balance',
+        actor_id: admin.id,
+      },
+    });
+  }
+  if (books.length) console.log(`Opening stock balance recorded for ${books.length} book(s)`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,95 @@
+-- books.writer / books.publisher (teks bebas) -> tabel authors / publishers, plus genre tambahan buku (_book_genres).
+-- Prisma tidak bisa membuat migrasi ini sendiri (kolom wajib baru + pemindahan data), jadi:
+--   npx prisma migrate dev --create-only --name authors_publishers
+--   ganti isi migration.sql yang dibuat dengan file ini, lalu jalankan npx prisma migrate dev
+--
+-- Deduplikasi: nama yang sama setelah spasi di ujung dibuang, spasi ganda dirapikan dan huruf kecil
+-- dianggap satu author/publisher ("Tere Liye", "tere  liye " -> satu baris). Ejaan yang paling sering dipakai
+-- menjadi nama yang disimpan. Aturan yang sama dipakai aplikasi (normalizeName di named-entity.service).
+
+CREATE TABLE "authors" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "authors_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "publishers" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "publishers_pkey" PRIMARY KEY ("id")
+);
+
+-- Relasi implisit Prisma books <-> genres ("book_genres"): A = books.id, B = genres.id
+CREATE TABLE "_book_genres" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_book_genres_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+CREATE INDEX "_book_genres_B_index" ON "_book_genres"("B");
+
+INSERT INTO "authors" ("id", "name", "updated_at")
+SELECT gen_random_uuid()::text, "name", CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT ON ("key") "key", "name"
+    FROM (
+        SELECT lower(regexp_replace(btrim("writer"), '\s+', ' ', 'g')) AS "key",
+               regexp_replace(btrim("writer"), '\s+', ' ', 'g') AS "name",
+               COUNT(*) AS "uses"
+        FROM "books"
+        GROUP BY 1, 2
+    ) "spellings"
+    ORDER BY "key", "uses" DESC, "name"
+) "picked";
+
+INSERT INTO "publishers" ("id", "name", "updated_at")
+SELECT gen_random_uuid()::text, "name", CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT ON ("key") "key", "name"
+    FROM (
+        SELECT lower(regexp_replace(btrim("publisher"), '\s+', ' ', 'g')) AS "key",
+               regexp_replace(btrim("publisher"), '\s+', ' ', 'g') AS "name",
+               COUNT(*) AS "uses"
+        FROM "books"
+        GROUP BY 1, 2
+    ) "spellings"
+    ORDER BY "key", "uses" DESC, "name"
+) "picked";
+
+ALTER TABLE "books" ADD COLUMN "author_id" TEXT, ADD COLUMN "publisher_id" TEXT;
+
+UPDATE "books" b SET "author_id" = a."id"
+FROM "authors" a
+WHERE lower(a."name") = lower(regexp_replace(btrim(b."writer"), '\s+', ' ', 'g'));
+
+UPDATE "books" b SET "publisher_id" = p."id"
+FROM "publishers" p
+WHERE lower(p."name") = lower(regexp_replace(btrim(b."publisher"), '\s+', ' ', 'g'));
+
+ALTER TABLE "books" ALTER COLUMN "author_id" SET NOT NULL, ALTER COLUMN "publisher_id" SET NOT NULL;
+
+DROP INDEX IF EXISTS "books_writer_idx";
+ALTER TABLE "books" DROP COLUMN "writer", DROP COLUMN "publisher";
+
+-- Nama unik tanpa membedakan huruf besar/kecil (Prisma belum bisa mendefinisikan indeks ekspresi di schema)
+CREATE UNIQUE INDEX "authors_name_lower_key" ON "authors"(lower("name"));
+CREATE UNIQUE INDEX "publishers_name_lower_key" ON "publishers"(lower("name"));
+
+CREATE INDEX "authors_name_idx" ON "authors" USING GIN ("name" gin_trgm_ops);
+CREATE INDEX "publishers_name_idx" ON "publishers" USING GIN ("name" gin_trgm_ops);
+CREATE INDEX "books_author_id_idx" ON "books"("author_id");
+CREATE INDEX "books_publisher_id_idx" ON "books"("publisher_id");
+
+ALTER TABLE "books" ADD CONSTRAINT "books_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "authors"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "books" ADD CONSTRAINT "books_publisher_id_fkey" FOREIGN KEY ("publisher_id") REFERENCES "publishers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "_book_genres" ADD CONSTRAINT "_book_genres_A_fkey" FOREIGN KEY ("A") REFERENCES "books"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "_book_genres" ADD CONSTRAINT "_book_genres_B_fkey" FOREIGN KEY ("B") REFERENCES "genres"("id") ON DELETE CASCADE ON UPDATE CASCADE;
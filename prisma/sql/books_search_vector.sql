@@ -0,0 +1,52 @@
+-- Kolom books.search_vector untuk full-text search GET /books/search (src/services/search.service.ts), dengan indeks GIN.
+-- Dokumen mencakup nama author dan publisher dari tabel lain, jadi tidak bisa berupa generated column; kolom diisi
+-- trigger saat buku ditulis dan saat nama author/publisher berubah. Prisma tidak bisa membuat trigger, jadi:
+--   npx prisma migrate dev --create-only --name books_search_vector
+--   ganti isi migration.sql yang dibuat dengan file ini, lalu jalankan npx prisma migrate dev
+--
+-- Bobot: title (A) > author (B) > publisher (C) > description (D); config 'simple' harus sama dengan query di search.service.
+
+ALTER TABLE "books" ADD COLUMN IF NOT EXISTS "search_vector" tsvector;
+
+CREATE OR REPLACE FUNCTION books_document(title TEXT, description TEXT, author_id TEXT, publisher_id TEXT)
+RETURNS tsvector LANGUAGE sql STABLE AS $$
+    SELECT setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+           setweight(to_tsvector('simple', coalesce((SELECT "name" FROM "authors" WHERE "id" = author_id), '')), 'B') ||
+           setweight(to_tsvector('simple', coalesce((SELECT "name" FROM "publishers" WHERE "id" = publisher_id), '')), 'C') ||
+           setweight(to_tsvector('simple', coalesce(description, '')), 'D')
+$$;
+
+CREATE OR REPLACE FUNCTION books_search_vector_refresh() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+    NEW."search_vector" := books_document(NEW."title", NEW."description", NEW."author_id", NEW."publisher_id");
+    RETURN NEW;
+END
+$$;
+
+CREATE TRIGGER "books_search_vector"
+BEFORE INSERT OR UPDATE OF "title", "description", "author_id", "publisher_id" ON "books"
+FOR EACH ROW EXECUTE FUNCTION books_search_vector_refresh();
+
+-- Nama author/publisher berubah: dokumen semua bukunya dihitung ulang
+CREATE OR REPLACE FUNCTION books_search_vector_rename() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'authors' THEN
+        UPDATE "books" SET "search_vector" = books_document("title", "description", "author_id", "publisher_id") WHERE "author_id" = NEW."id";
+    ELSE
+        UPDATE "books" SET "search_vector" = books_document("title", "description", "author_id", "publisher_id") WHERE "publisher_id" = NEW."id";
+    END IF;
+    RETURN NULL;
+END
+$$;
+
+CREATE TRIGGER "authors_search_vector"
+AFTER UPDATE OF "name" ON "authors"
+FOR EACH ROW WHEN (OLD."name" IS DISTINCT FROM NEW."name") EXECUTE FUNCTION books_search_vector_rename();
+
+CREATE TRIGGER "publishers_search_vector"
+AFTER UPDATE OF "name" ON "publishers"
+FOR EACH ROW WHEN (OLD."name" IS DISTINCT FROM NEW."name") EXECUTE FUNCTION books_search_vector_rename();
+
+UPDATE "books" SET "search_vector" = books_document("title", "description", "author_id", "publisher_id");
+
+CREATE INDEX "books_search_vector_idx" ON "books" USING GIN ("search_vector");
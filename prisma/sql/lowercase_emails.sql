@@ -0,0 +1,17 @@
+-- Email sekarang dinormalisasi (trim + huruf kecil) sebelum disimpan dan dicari (src/utils/email.ts). Akun lama dengan
+-- huruf besar di email-nya tidak akan ketemu saat login, jadi dirapikan sekali lewat migrasi custom:
+--   npx prisma migrate dev --create-only --name lowercase_emails
+--   ganti isi migration.sql yang dibuat dengan file ini, lalu jalankan npx prisma migrate dev
+--
+-- Email yang bentrok setelah dinormalisasi ("A@x.com" dan "a@x.com" sebagai dua akun) dibiarkan dan harus
+-- diselesaikan manual (misal hapus/anonimkan salah satu). Cari dengan:
+--   SELECT lower(btrim(email)), array_agg(id) FROM users GROUP BY 1 HAVING COUNT(*) > 1;
+
+UPDATE "users" u SET "email" = lower(btrim(u."email"))
+WHERE u."email" <> lower(btrim(u."email"))
+  AND NOT EXISTS (
+    SELECT 1 FROM "users" o WHERE o."id" <> u."id" AND lower(btrim(o."email")) = lower(btrim(u."email"))
+  );
+
+UPDATE "users" SET "pending_email" = lower(btrim("pending_email"))
+WHERE "pending_email" IS NOT NULL AND "pending_email" <> lower(btrim("pending_email"));
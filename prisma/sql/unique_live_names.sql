@@ -0,0 +1,16 @@
+-- Judul buku dan nama genre unik hanya di antara baris aktif (deleted_at IS NULL), supaya nama data yang sudah
+-- di-soft-delete bisa dipakai lagi. Judul dibandingkan tanpa membedakan huruf besar/kecil ("DUNE" = "Dune"), sama
+-- dengan cek di book.controller dan import katalog. Prisma belum bisa mendefinisikan partial unique index di schema, jadi:
+--   npx prisma migrate dev --create-only --name unique_live_names
+--   ganti isi migration.sql yang dibuat dengan file ini, lalu jalankan npx prisma migrate dev
+--
+-- Cek aplikasi (findFirst di book.controller / genre.service) tetap dipakai untuk pesan error yang jelas; indeks ini
+-- menahan dua request paralel yang sama-sama lolos cek itu. Pelanggarannya (P2002) dipetakan ke 409
+-- DUPLICATE_TITLE / DUPLICATE_GENRE di middlewares/error.ts.
+--
+-- Jika masih ada duplikat aktif, CREATE INDEX gagal. Cari dulu dengan:
+--   SELECT lower(title), COUNT(*) FROM books WHERE deleted_at IS NULL GROUP BY 1 HAVING COUNT(*) > 1;
+--   SELECT name, COUNT(*) FROM genres WHERE deleted_at IS NULL GROUP BY name HAVING COUNT(*) > 1;
+
+CREATE UNIQUE INDEX "books_title_live_key" ON "books"(lower("title")) WHERE "deleted_at" IS NULL;
+CREATE UNIQUE INDEX "genres_name_live_key" ON "genres"("name") WHERE "deleted_at" IS NULL;
@@ -1,21 +1,35 @@
 import express from 'express';
 import cors from 'cors';
-import healthRoutes from './routes/health.routes';
-import authRoutes from './routes/auth.routes';
-import genreRoutes from './routes/genre.routes';
-import bookRoutes from './routes/book.route';
-import transactionRoutes from './routes/transaction.route';
+import { routers } from './routes';
+import docsRoutes from './routes/docs.routes';
 import { errorHandler } from './middlewares/error';
+import { requestId } from './middlewares/request-id';
+import { auditTrail } from './middlewares/audit';
+import { policies, rateLimit } from './middlewares/rate-limit';
+import { NotFoundError } from './utils/errors';
 
 const app = express();
-app.use(cors());
+// Jumlah reverse proxy di depan API; tanpa ini req.ip (kunci rate limit) adalah IP proxy
+if (process.env.TRUST_PROXY) app.set('trust proxy', Number(process.env.TRUST_PROXY));
+// Header non-standar CORS harus di-expose supaya bisa dibaca client di browser
+app.use(cors({
+  exposedHeaders: ['X-Request-Id', 'ETag', 'Idempotent-Replayed', 'Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy'],
+}));
+app.use(requestId);
+app.use(rateLimit(policies.write));
+app.use(auditTrail);
+// Import katalog butuh body lebih besar dari default 100kb, jadi diparse lebih dulu di sini
+app.use('/books/import', express.json({ limit: '5mb' }), express.text({ type: ['text/csv', 'application/csv'], limit: '5mb' }));
 app.use(express.json());
 
-app.use('/health-check', healthRoutes);
-app.use('/auth', authRoutes);
-app.use('/genre', genreRoutes);
-app.use('/books', bookRoutes);
-app.use('/transactions', transactionRoutes);
+for (const [prefix, router] of Object.entries(routers)) app.use(prefix, router);
+// /openapi.json dan /docs
+app.use(docsRoutes);
+
+// Route yang tidak terdaftar tetap dijawab dengan format error standar
+app.use((req, _res, next) => {
+  next(new NotFoundError(`Route ${req.method} ${req.path} not found`, { code: 'ROUTE_NOT_FOUND' }));
+});
 
 app.use(errorHandler);
 export default app;
@@ -0,0 +1,25 @@
+import { Request, Response } from 'express';
+import * as svc from '../services/audit.service';
+import { ok } from '../utils/response';
+import { listQuery, ListQuery } from '../utils/query';
+
+// Contoh: ?entity=books&entity_id=<id>&changed_field=price&created_at[gte]=2025-01-01
+export const AuditListQuery = listQuery({
+  sort: ['created_at'],
+  defaultSort: '-created_at',
+  cursor: true,
+  filters: {
+    entity: { type: { enum: ['books', 'genres', 'authors', 'publishers', 'users', 'orders', 'promotions', 'reviews'] }, ops: ['eq', 'in'] },
+    entity_id: { type: 'string', ops: ['eq'] },
+    actor_id: { type: 'string', ops: ['eq'] },
+    action: { type: { enum: ['create', 'update', 'delete', 'soft_delete', 'restore'] }, ops: ['eq', 'in'] },
+    request_id: { type: 'string', ops: ['eq'] },
+    changed_field: { type: 'string', ops: ['eq'] },
+    created_at: { type: 'date', ops: ['gte', 'lte'] },
+  },
+});
+
+export async function list(req: Request, res: Response) {
+  const { items, pagination } = await svc.list(req.query as unknown as ListQuery);
+  res.json(ok('Audit logs', items, { pagination }));
+}
@@ -1,30 +1,82 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import * as svc from '../services/auth.service';
-import { ok, fail } from '../utils/response';
+import { AuthRequest } from '../middlewares/auth';
+import { ok } from '../utils/response';
+import { emailField } from '../utils/email';
 
-const RegisterDto = z.object({ username: z.string().optional(), email: z.string().email(), password: z.string().min(6) });
-const LoginDto = z.object({ email: z.string().email(), password: z.string().min(6) });
+export const RegisterDto = z.object({ username: z.string().optional(), email: emailField(), password: z.string().min(6) });
+export const LoginDto = z.object({ email: emailField(), password: z.string().min(6) });
+export const RefreshDto = z.object({ refresh_token: z.string().min(1) });
+export const EmailDto = z.object({ email: emailField() });
+export const TokenDto = z.object({ token: z.string().min(1) });
+export const ResetPasswordDto = z.object({ token: z.string().min(1), password: z.string().min(6) });
+export const UpdateProfileDto = z.object({ username: z.string().trim().min(1).max(100).nullable() });
+export const ChangePasswordDto = z.object({ current_password: z.string().min(1), new_password: z.string().min(6) });
+export const ChangeEmailDto = z.object({ new_email: emailField(), password: z.string().min(1) });
+export const PasswordDto = z.object({ password: z.string().min(1) });
 
+// Body sudah divalidasi oleh middleware validate(...) di auth.routes.ts
 export async function register(req: Request, res: Response) {
-  const parsed = RegisterDto.safeParse(req.body);
-  if (!parsed.success) return res.status(400).json(fail('Invalid body'));
-  try {
-    const data = await svc.register(parsed.data);
-    res.status(201).json(ok('Registered', data));
-  } catch (e: any) {
-    if (e.code === 'P2002') return res.status(409).json(fail('Email already used'));
-    throw e;
-  }
+  const data = await svc.register(req.body as z.infer<typeof RegisterDto>);
+  res.status(201).json(ok('Registered', data));
 }
 export async function login(req: Request, res: Response) {
-  const parsed = LoginDto.safeParse(req.body);
-  if (!parsed.success) return res.status(400).json(fail('Invalid body'));
-  const data = await svc.login(parsed.data);
-  res.json(ok('Logged in', data)); // { access_token }
+  const data = await svc.login(req.body as z.infer<typeof LoginDto>);
+  res.json(ok('Logged in', data)); // { access_token, refresh_token }
+}
+export async function refresh(req: Request, res: Response) {
+  const data = await svc.refresh(req.body.refresh_token);
+  res.json(ok('Token refreshed', data));
+}
+export async function logout(req: Request, res: Response) {
+  await svc.logout(req.body.refresh_token);
+  res.json(ok('Logged out', null));
+}
+export async function logoutAll(req: Request, res: Response) {
+  await svc.revokeAllSessions((req as AuthRequest).user.id);
+  res.json(ok('Logged out from all sessions', null));
+}
+export async function forgotPassword(req: Request, res: Response) {
+  await svc.forgotPassword(req.body.email);
+  res.json(ok('If the email is registered, a reset link has been sent', null));
+}
+export async function resetPassword(req: Request, res: Response) {
+  await svc.resetPassword(req.body.token, req.body.password);
+  res.json(ok('Password has been reset', null));
+}
+export async function verifyEmail(req: Request, res: Response) {
+  await svc.verifyEmail(req.body.token);
+  res.json(ok('Email verified', null));
+}
+export async function resendVerification(req: Request, res: Response) {
+  await svc.resendVerification(req.body.email);
+  res.json(ok('If the email is registered and not yet verified, a verification link has been sent', null));
 }
 export async function me(_req: Request, res: Response) {
   const user = (res.req as any).user;
   const data = await svc.me(user.id);
   res.json(ok('Profile', data));
 }
+export async function updateMe(req: Request, res: Response) {
+  const data = await svc.updateProfile((req as AuthRequest).user.id, req.body as z.infer<typeof UpdateProfileDto>);
+  res.json(ok('Profile updated', data));
+}
+export async function changePassword(req: Request, res: Response) {
+  const { current_password, new_password } = req.body as z.infer<typeof ChangePasswordDto>;
+  const data = await svc.changePassword((req as AuthRequest).user.id, current_password, new_password);
+  res.json(ok('Password changed', data)); // { access_token, refresh_token } baru
+}
+export async function changeEmail(req: Request, res: Response) {
+  const { new_email, password } = req.body as z.infer<typeof ChangeEmailDto>;
+  const data = await svc.requestEmailChange((req as AuthRequest).user.id, new_email, password);
+  res.json(ok('A confirmation link has been sent to the new email', data));
+}
+export async function confirmEmailChange(req: Request, res: Response) {
+  const data = await svc.confirmEmailChange(req.body.token);
+  res.json(ok('Email changed', data));
+}
+export async function deleteMe(req: Request, res: Response) {
+  await svc.deleteAccount((req as AuthRequest).user.id, (req.body as z.infer<typeof PasswordDto>).password);
+  res.json(ok('Account deleted', null));
+}
@@ -1,363 +1,587 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { ok, fail } from '../utils/response';
+import { once } from 'events';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma/client';
+import { ok } from '../utils/response';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import * as search from '../services/search.service';
+import * as catalog from '../services/catalog.service';
+import { bookInclude, BookWithRelations } from '../services/book.service';
+import * as authors from '../services/author.service';
+import * as publishers from '../services/publisher.service';
+import { setStock, stockTransaction } from '../services/inventory.service';
+import { AuthRequest } from '../middlewares/auth';
+import { parseCsvRecords, toCsvLine } from '../utils/csv';
+import { assertIfMatch, concurrentModification, etagOf } from '../utils/etag';
+import { deletedWhere, FilterOp, ListQuery, listQuery, ListQuerySpec, offsetPagination, toFindArgs, toPage, toWhere } from '../utils/query';
+
+const numberOps: FilterOp[] = ['eq', 'gt', 'gte', 'lt', 'lte'];
+const textOps: FilterOp[] = ['eq', 'contains'];
+
+// Body POST /books; field di luar daftar ini dibuang oleh validate(...)
+export const CreateBookDto = z.object({
+  title: z.string().trim().min(1),
+  author_id: z.uuid(),
+  publisher_id: z.uuid(),
+  publication_year: z.number().int().refine(
+    (year) => year <= new Date().getFullYear(),
+    { message: 'Publication year cannot be greater than the current year' }
+  ),
+  description: z.string().nullish(),
+  price: z.number().min(0, { message: 'Price cannot be negative' }),
+  stock_quantity: z.number().int({ message: 'Stock quantity must be an integer' }).min(0, { message: 'Stock quantity cannot be negative' }),
+  reorder_threshold: z.number().int().min(0, { message: 'Reorder threshold cannot be negative' }).optional(),
+  // genre_id = genre utama; genre_ids = genre tambahan (menggantikan daftar lama saat PATCH)
+  genre_id: z.uuid(),
+  genre_ids: z.array(z.uuid()).max(10).optional()
+});
+
+// Body PATCH /books/:book_id; semua field opsional tapi minimal satu
+export const UpdateBookDto = CreateBookDto.partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided' }
+);
+
+const bookListSpec: ListQuerySpec = {
+  sort: ['title', 'price', 'publication_year', 'stock_quantity', 'created_at', 'average_rating', 'review_count'],
+  defaultSort: '-created_at',
+  cursor: true,
+  search: 'search',
+  softDelete: true,
+  filters: {
+    title: { type: 'string', ops: textOps },
+    author_id: { type: 'string', ops: ['eq', 'in'] },
+    publisher_id: { type: 'string', ops: ['eq', 'in'] },
+    price: { type: 'number', ops: numberOps },
+    publication_year: { type: 'int', ops: numberOps },
+    stock_quantity: { type: 'int', ops: numberOps },
+    average_rating: { type: 'number', ops: ['gte', 'lte'] },
+    genre_id: { type: 'string', ops: ['eq', 'in'] }
+  }
+};
 
-const prisma = new PrismaClient();
+// Query GET /books dan GET /books/genre/:genre_id
+export const BookListQuery = listQuery(bookListSpec);
+
+// Query GET /books/export: filter, search dan sort sama dengan GET /books, tanpa pagination
+export const BookExportQuery = z.intersection(
+  z.object({ format: z.enum(['csv', 'json']).default('csv') }),
+  listQuery({ ...bookListSpec, cursor: false })
+);
+
+// Query POST /books/import
+export const BookImportQuery = z.object({
+  dry_run: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+  mode: z.enum(['upsert', 'create']).default('upsert')
+});
+
+// Satu baris import: aturan sama dengan CreateBookDto, tetapi author, publisher dan genre ditulis dengan nama.
+// genres (genre tambahan) di CSV dipisah titik koma, misal "Fantasy;Adventure"
+export const BookImportRowDto = CreateBookDto.omit({ author_id: true, publisher_id: true, genre_id: true, genre_ids: true }).extend({
+  author: z.string().trim().min(1),
+  publisher: z.string().trim().min(1),
+  genre: z.string().trim().min(1),
+  genres: z.preprocess(
+    (value) => (typeof value === 'string' ? value.split(';').map((name) => name.trim()).filter(Boolean) : value),
+    z.array(z.string().trim().min(1)).max(10)
+  ).optional()
+});
+
+const IMPORT_MAX_ROWS = 5000;
+const CSV_NUMBER_COLUMNS = ['publication_year', 'price', 'stock_quantity', 'reorder_threshold'];
+
+// Query GET /books/search (tanpa cursor, pagination offset saja)
+export const BookSearchQuery = listQuery({
+  sort: ['relevance', 'title', 'price', 'publication_year', 'created_at', 'average_rating', 'review_count'],
+  defaultSort: '-relevance',
+  search: 'q',
+  filters: {
+    price: { type: 'number', ops: ['gte', 'lte'] },
+    publication_year: { type: 'int', ops: ['gte', 'lte'] },
+    genre_id: { type: 'string', ops: ['eq', 'in'] },
+    author_id: { type: 'string', ops: ['eq', 'in'] },
+    publisher_id: { type: 'string', ops: ['eq', 'in'] },
+    in_stock: { type: 'boolean', ops: ['eq'] }
+  }
+});
+
+// Search filter (berlaku untuk title, nama author, nama publisher)
+const searchFilter = (search?: string): Prisma.booksWhereInput =>
+  search
+    ? {
+        OR: [
+          { title: { contains: search, mode: 'insensitive' } },
+          { author: { name: { contains: search, mode: 'insensitive' } } },
+          { publisher: { name: { contains: search, mode: 'insensitive' } } }
+        ]
+      }
+    : {};
+
+// Filter genre cocok dengan genre utama maupun genre tambahan
+const genreFilter = (ids?: string[]): Prisma.booksWhereInput =>
+  ids ? { OR: [{ genre_id: { in: ids } }, { genres: { some: { id: { in: ids } } } }] } : {};
+
+// Nilai filter [eq] / [in] sebagai array id
+const idsOf = (filter?: Partial<Record<FilterOp, unknown>>) =>
+  (filter?.in ?? (filter?.eq ? [filter.eq] : undefined)) as string[] | undefined;
+
+// Where untuk GET /books, /books/genre/:id, /authors/:id/books, /publishers/:id/books dan export
+const bookWhere = (query: ListQuery, ...extra: Prisma.booksWhereInput[]): Prisma.booksWhereInput => {
+  const { genre_id, ...filters } = query.filters;
+  return {
+    ...toWhere({ ...query, filters }),
+    ...deletedWhere(query),
+    AND: [searchFilter(query.search), genreFilter(idsOf(genre_id)), ...extra]
+  };
+};
 
-// POST /books - Create book with duplicate title validation
-export const createBook = async (req: Request, res: Response) => {
-  try {
-    const { title, writer, publisher, publication_year, description, price, stock_quantity, genre_id } = req.body;
+// Representasi buku menyertakan genre, author dan publisher, jadi ETag ikut berubah jika salah satunya di-rename
+const bookEtag = (book: BookWithRelations) =>
+  etagOf(book.version, book.genre.version, book.author.version, book.publisher.version, ...book.genres.map((g) => g.version));
 
-    // Validasi publication_year tidak boleh lebih dari tahun sekarang
-    const currentYear = new Date().getFullYear();
-    if (publication_year > currentYear) {
-      return res.status(422).json(fail(`Publication year cannot be greater than ${currentYear}`));
-    }
+type BookReferences = Partial<Pick<z.infer<typeof CreateBookDto>, 'author_id' | 'publisher_id' | 'genre_id' | 'genre_ids'>>;
 
-    // Validasi price tidak boleh negatif
-    if (price < 0) {
-      return res.status(422).json(fail('Price cannot be negative'));
-    }
+// Author, publisher dan semua genre (utama + tambahan) harus ada; genre yang sudah dihapus dianggap tidak ada
+const checkReferences = async ({ author_id, publisher_id, genre_id, genre_ids }: BookReferences) => {
+  if (author_id) await authors.findAuthor(author_id);
+  if (publisher_id) await publishers.findPublisher(publisher_id);
 
-    // Validasi stock_quantity harus integer
-    if (!Number.isInteger(stock_quantity)) {
-      return res.status(422).json(fail('Stock quantity must be an integer'));
-    }
+  const genreIds = [...new Set([...(genre_id ? [genre_id] : []), ...(genre_ids ?? [])])];
+  const genres = await prisma.genres.findMany({ where: { id: { in: genreIds }, deleted_at: null }, select: { id: true } });
+  const missing = genreIds.filter((id) => !genres.some((g) => g.id === id));
+  if (missing.length) {
+    throw new NotFoundError('Genre not found', { code: 'GENRE_NOT_FOUND', details: { genre_ids: missing } });
+  }
+};
 
-    // Validasi stock_quantity tidak boleh negatif
-    if (stock_quantity < 0) {
-      return res.status(422).json(fail('Stock quantity cannot be negative'));
-    }
+// Genre utama tidak disimpan ulang sebagai genre tambahan
+const extraGenres = (genreId: string, genreIds: string[]) =>
+  [...new Set(genreIds)].filter((id) => id !== genreId).map((id) => ({ id }));
 
-    // Validasi duplikat judul
-    const existingBook = await prisma.books.findFirst({
-      where: {
-        title,
-        deleted_at: null
-      }
-    });
+// POST /books - Create book with duplicate title validation
+// Format field (tahun, harga, stok) sudah divalidasi oleh CreateBookDto
+export const createBook = async (req: Request, res: Response) => {
+  const { title, author_id, publisher_id, publication_year, description, price, stock_quantity, reorder_threshold, genre_id, genre_ids } = req.body as z.infer<typeof CreateBookDto>;
 
-    if (existingBook) {
-      return res.status(400).json(fail('Book with this title already exists'));
+  // Validasi duplikat judul (tanpa membedakan huruf besar/kecil, sama dengan indeks books_title_live_key)
+  const existingBook = await prisma.books.findFirst({
+    where: {
+      title: { equals: title, mode: 'insensitive' },
+      deleted_at: null
     }
+  });
 
-    // Validasi genre exists
-    const genre = await prisma.genres.findUnique({
-      where: { id: genre_id }
-    });
+  if (existingBook) {
+    throw new ConflictError('Book with this title already exists', { code: 'DUPLICATE_TITLE' });
+  }
 
-    if (!genre) {
-      return res.status(404).json(fail('Genre not found'));
-    }
+  await checkReferences({ author_id, publisher_id, genre_id, genre_ids });
 
-    const book = await prisma.books.create({
+  // Buku dibuat dengan stok 0, stok awal masuk lewat ledger (stock_movements)
+  const book = await stockTransaction(async (tx) => {
+    const created = await tx.books.create({
       data: {
         title,
-        writer,
-        publisher,
+        author_id,
+        publisher_id,
         publication_year,
         description,
         price,
-        stock_quantity,
-        genre_id
-      },
-      include: {
-        genre: true
+        stock_quantity: 0,
+        reorder_threshold,
+        genre_id,
+        genres: { connect: extraGenres(genre_id, genre_ids ?? []) }
       }
     });
+    await setStock(tx, created.id, stock_quantity, (req as AuthRequest).user.id, 'Initial stock');
+    return tx.books.findUniqueOrThrow({ where: { id: created.id }, include: bookInclude });
+  });
 
-    res.status(201).json(ok('Book created successfully', book));
-  } catch (error) {
-    res.status(500).json(fail('Failed to create book'));
-  }
+  res.status(201).json(ok('Book created successfully', book));
 };
 
 // GET /books - Get all books with filter and pagination
 export const getBooks = async (req: Request, res: Response) => {
-  try {
-    const {
-      page = '1',
-      limit = '10',
-      search,
-      orderByTitle,
-      orderByPublishDate
-    } = req.query;
-
-    const pageNum = parseInt(page as string);
-    const limitNum = parseInt(limit as string);
-    const skip = (pageNum - 1) * limitNum;
-
-    // Build filter object
-    const where: any = {
-      deleted_at: null
+  const query = req.query as unknown as ListQuery;
+
+  const where = bookWhere(query);
+
+  // Get total count
+  const total = await prisma.books.count({ where });
+
+  // Get books with pagination
+  const rows = await prisma.books.findMany({
+    where,
+    include: bookInclude,
+    ...toFindArgs(query)
+  });
+
+  const { items: books, pagination } = toPage(query, rows, total);
+
+  res.json(ok('Books retrieved successfully', { books }, { pagination }));
+};
+
+// GET /books/search - Full-text search dengan ranking relevansi dan facet
+export const searchBooks = async (req: Request, res: Response) => {
+  const query = req.query as unknown as ListQuery;
+  const { price, publication_year, genre_id, author_id, publisher_id, in_stock } = query.filters;
+
+  const { books, facets, total } = await search.search({
+    q: query.search,
+    min_price: price?.gte as number | undefined,
+    max_price: price?.lte as number | undefined,
+    min_year: publication_year?.gte as number | undefined,
+    max_year: publication_year?.lte as number | undefined,
+    genre_ids: idsOf(genre_id),
+    author_ids: idsOf(author_id),
+    publisher_ids: idsOf(publisher_id),
+    in_stock: in_stock?.eq === true,
+    sort: query.sort,
+    page: query.page,
+    limit: query.limit
+  });
+
+  res.json(ok('Books search results', { books, facets }, { pagination: offsetPagination(query, total) }));
+};
+
+// Nilai CSV selalu string: kolom angka dikonversi, sel kosong dianggap tidak diisi
+const fromCsv = (record: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(record).map(([key, raw]) => {
+      const value = raw.trim();
+      if (value === '') return [key, undefined];
+      return [key, CSV_NUMBER_COLUMNS.includes(key) ? Number(value) : value];
+    })
+  );
+
+// Body import: text/csv (baris pertama header) atau JSON berupa array / { "books": [...] }
+const readImportRecords = (body: unknown): unknown[] => {
+  if (typeof body === 'string') return parseCsvRecords(body).map(fromCsv);
+  const records = Array.isArray(body) ? body : (body as { books?: unknown } | undefined)?.books;
+  if (!Array.isArray(records)) {
+    throw new BadRequestError('Upload a CSV file (Content-Type: text/csv) or a JSON array of books', { code: 'INVALID_IMPORT_FILE' });
+  }
+  return records;
+};
+
+// File export lama memakai kolom writer untuk nama author
+const withLegacyColumns = (record: unknown) => {
+  if (!record || typeof record !== 'object' || 'author' in record || !('writer' in record)) return record;
+  const { writer, ...rest } = record as Record<string, unknown>;
+  return { ...rest, author: writer };
+};
+
+// POST /books/import - Import banyak buku sekaligus dari CSV/JSON
+export const importBooks = async (req: Request, res: Response) => {
+  const { dry_run, mode } = req.query as unknown as z.infer<typeof BookImportQuery>;
+  const records = readImportRecords(req.body);
+
+  if (records.length === 0) {
+    throw new BadRequestError('Import file has no rows', { code: 'INVALID_IMPORT_FILE' });
+  }
+  if (records.length > IMPORT_MAX_ROWS) {
+    throw new BadRequestError(`Import is limited to ${IMPORT_MAX_ROWS} rows per request`, { code: 'IMPORT_TOO_LARGE' });
+  }
+
+  // Nomor baris dimulai dari 1 (untuk CSV, baris data pertama setelah header)
+  const rows: catalog.ImportRow[] = records.map((record, i) => {
+    const parsed = BookImportRowDto.safeParse(withLegacyColumns(record));
+    if (parsed.success) return { row: i + 1, data: parsed.data };
+    const title = (record as { title?: unknown } | null)?.title;
+    return {
+      row: i + 1,
+      title: typeof title === 'string' ? title : undefined,
+      errors: parsed.error.issues.map((issue) => ({ field: issue.path.join('.'), message: issue.message }))
     };
+  });
 
-    // Search filter (berlaku untuk title, writer, publisher)
-    if (search) {
-      where.OR = [
-        { title: { contains: search as string, mode: 'insensitive' } },
-        { writer: { contains: search as string, mode: 'insensitive' } },
-        { publisher: { contains: search as string, mode: 'insensitive' } }
-      ];
-    }
+  const report = await catalog.importBooks(rows, { dryRun: dry_run, mode, actorId: (req as AuthRequest).user.id });
 
-    // Build orderBy
-    const orderBy: any[] = [];
-    
-    if (orderByTitle) {
-      orderBy.push({ title: orderByTitle === 'asc' ? 'asc' : 'desc' });
-    }
-    
-    if (orderByPublishDate) {
-      orderBy.push({ publication_year: orderByPublishDate === 'asc' ? 'asc' : 'desc' });
-    }
+  res.json(ok(dry_run ? 'Import dry run completed' : 'Import completed', report));
+};
 
-    // Default order by created_at if no order specified
-    if (orderBy.length === 0) {
-      orderBy.push({ created_at: 'desc' });
-    }
+// GET /books/export - Stream katalog (dengan filter yang sama seperti GET /books) sebagai CSV atau JSON
+export const exportBooks = async (req: Request, res: Response) => {
+  const query = req.query as unknown as ListQuery & { format: 'csv' | 'json' };
 
-    // Get total count
-    const total = await prisma.books.count({ where });
-
-    // Get books with pagination
-    const books = await prisma.books.findMany({
-      where,
-      include: {
-        genre: true
-      },
-      skip,
-      take: limitNum,
-      orderBy
-    });
+  const where = bookWhere(query);
+  const { orderBy } = toFindArgs(query);
 
-    res.json(ok('Books retrieved successfully', {
-      books,
-      pagination: {
-        page: pageNum,
-        limit: limitNum,
-        total,
-        total_pages: Math.ceil(total / limitNum)
-      }
-    }));
-  } catch (error) {
-    res.status(500).json(fail('Failed to fetch books'));
+  // Hormati backpressure supaya buffer respons tidak membengkak untuk katalog besar
+  const write = async (chunk: string) => {
+    if (!res.write(chunk)) await once(res, 'drain');
+  };
+
+  const date = new Date().toISOString().slice(0, 10);
+  res.attachment(`books-${date}.${query.format}`);
+
+  if (query.format === 'csv') {
+    res.type('text/csv; charset=utf-8');
+    await write(toCsvLine([...catalog.EXPORT_COLUMNS]));
+    for await (const row of catalog.exportBooks(where, orderBy)) {
+      await write(toCsvLine(catalog.EXPORT_COLUMNS.map((column) => row[column])));
+    }
+  } else {
+    res.type('application/json');
+    let first = true;
+    await write('[');
+    for await (const row of catalog.exportBooks(where, orderBy)) {
+      await write((first ? '' : ',') + JSON.stringify(row));
+      first = false;
+    }
+    await write(']');
   }
+
+  res.end();
 };
 
 // GET /books/:book_id - Get single book
 export const getBookById = async (req: Request, res: Response) => {
-  try {
-    const { book_id } = req.params;
-
-    const book = await prisma.books.findFirst({
-      where: {
-        id: book_id,
-        deleted_at: null
-      },
-      include: {
-        genre: true
-      }
-    });
+  const { book_id } = req.params;
 
-    if (!book) {
-      return res.status(404).json(fail('Book not found'));
-    }
+  const book = await prisma.books.findFirst({
+    where: {
+      id: book_id,
+      deleted_at: null
+    },
+    include: bookInclude
+  });
 
-    res.json(ok('Book retrieved successfully', book));
-  } catch (error) {
-    res.status(500).json(fail('Failed to fetch book'));
+  if (!book) {
+    throw new NotFoundError('Book not found', { code: 'BOOK_NOT_FOUND' });
   }
+
+  // If-None-Match yang cocok dijawab 304 oleh Express (req.fresh) tanpa body
+  res.set('ETag', bookEtag(book));
+  res.json(ok('Book retrieved successfully', book));
 };
 
 // GET /books/genre/:genre_id - Get books by genre
 export const getBooksByGenre = async (req: Request, res: Response) => {
-  try {
-    const { genre_id } = req.params;
-    const { 
-      page = '1', 
-      limit = '10',
-      search,
-      orderByTitle,
-      orderByPublishDate
-    } = req.query;
-
-    // Validasi genre exists
-    const genre = await prisma.genres.findUnique({
-      where: { id: genre_id }
-    });
+  const { genre_id } = req.params;
+  const query = req.query as unknown as ListQuery;
 
-    if (!genre) {
-      return res.status(404).json(fail('Genre not found'));
-    }
+  // Validasi genre exists
+  const genre = await prisma.genres.findUnique({
+    where: { id: genre_id }
+  });
+
+  if (!genre) {
+    throw new NotFoundError('Genre not found', { code: 'GENRE_NOT_FOUND' });
+  }
 
-    const pageNum = parseInt(page as string);
-    const limitNum = parseInt(limit as string);
-    const skip = (pageNum - 1) * limitNum;
+  const where = bookWhere(query, genreFilter([genre_id]));
 
-    const where: any = {
-      genre_id,
-      deleted_at: null
-    };
+  const total = await prisma.books.count({ where });
 
-    // Search filter
-    if (search) {
-      where.OR = [
-        { title: { contains: search as string, mode: 'insensitive' } },
-        { writer: { contains: search as string, mode: 'insensitive' } },
-        { publisher: { contains: search as string, mode: 'insensitive' } }
-      ];
-    }
+  const rows = await prisma.books.findMany({
+    where,
+    include: bookInclude,
+    ...toFindArgs(query)
+  });
 
-    // Build orderBy
-    const orderBy: any[] = [];
-    
-    if (orderByTitle) {
-      orderBy.push({ title: orderByTitle === 'asc' ? 'asc' : 'desc' });
-    }
-    
-    if (orderByPublishDate) {
-      orderBy.push({ publication_year: orderByPublishDate === 'asc' ? 'asc' : 'desc' });
-    }
+  const { items: books, pagination } = toPage(query, rows, total);
 
-    if (orderBy.length === 0) {
-      orderBy.push({ created_at: 'desc' });
-    }
+  res.json(ok('Books by genre retrieved successfully', { books }, { pagination }));
+};
 
-    const total = await prisma.books.count({ where });
+// Daftar buku dengan filter tambahan; query sama dengan GET /books
+const listBooks = async (query: ListQuery, extra: Prisma.booksWhereInput) => {
+  const where = bookWhere(query, extra);
+  const [rows, total] = await Promise.all([
+    prisma.books.findMany({ where, include: bookInclude, ...toFindArgs(query) }),
+    prisma.books.count({ where })
+  ]);
+  return toPage(query, rows, total);
+};
 
-    const books = await prisma.books.findMany({
-      where,
-      include: {
-        genre: true
-      },
-      skip,
-      take: limitNum,
-      orderBy
-    });
+// GET /authors/:id/books - Get books by author
+export const getBooksByAuthor = async (req: Request, res: Response) => {
+  const author = await authors.findAuthor(req.params.id);
+  const { items: books, pagination } = await listBooks(req.query as unknown as ListQuery, { author_id: author.id });
+  res.json(ok('Books by author retrieved successfully', { books }, { pagination }));
+};
 
-    res.json(ok('Books by genre retrieved successfully', {
-      books,
-      pagination: {
-        page: pageNum,
-        limit: limitNum,
-        total,
-        total_pages: Math.ceil(total / limitNum)
-      }
-    }));
-  } catch (error) {
-    res.status(500).json(fail('Failed to fetch books by genre'));
-  }
+// GET /publishers/:id/books - Get books by publisher
+export const getBooksByPublisher = async (req: Request, res: Response) => {
+  const publisher = await publishers.findPublisher(req.params.id);
+  const { items: books, pagination } = await listBooks(req.query as unknown as ListQuery, { publisher_id: publisher.id });
+  res.json(ok('Books by publisher retrieved successfully', { books }, { pagination }));
 };
 
 // PATCH /books/:book_id - Update book (stock and info)
+// Hanya field dari UpdateBookDto yang sampai ke sini (id, created_at, deleted_at dibuang)
 export const updateBook = async (req: Request, res: Response) => {
-  try {
-    const { book_id } = req.params;
-    const updateData = req.body;
+  const { book_id } = req.params;
+  const updateData = req.body as z.infer<typeof UpdateBookDto>;
+  const ifMatch = req.get('If-Match');
+
+  // Check if book exists
+  const existingBook = await prisma.books.findFirst({
+    where: {
+      id: book_id,
+      deleted_at: null
+    },
+    include: bookInclude
+  });
+
+  if (!existingBook) {
+    throw new NotFoundError('Book not found', { code: 'BOOK_NOT_FOUND' });
+  }
+
+  // If-Match dari ETag GET /books/:book_id; versi lama -> 412
+  assertIfMatch(ifMatch, bookEtag(existingBook));
 
-    // Check if book exists
-    const existingBook = await prisma.books.findFirst({
+  // Validasi duplikat judul jika title diupdate
+  if (updateData.title && updateData.title !== existingBook.title) {
+    const duplicateTitle = await prisma.books.findFirst({
       where: {
-        id: book_id,
-        deleted_at: null
+        title: { equals: updateData.title, mode: 'insensitive' },
+        deleted_at: null,
+        id: { not: book_id }
       }
     });
 
-    if (!existingBook) {
-      return res.status(404).json(fail('Book not found'));
+    if (duplicateTitle) {
+      throw new ConflictError('Book with this title already exists', { code: 'DUPLICATE_TITLE' });
     }
+  }
 
-    // Validasi publication_year jika diupdate
-    if (updateData.publication_year !== undefined) {
-      const currentYear = new Date().getFullYear();
-      if (updateData.publication_year > currentYear) {
-        return res.status(422).json(fail(`Publication year cannot be greater than ${currentYear}`));
-      }
-    }
+  // Validasi author, publisher dan genre yang ikut diupdate
+  await checkReferences(updateData);
 
-    // Validasi price jika diupdate
-    if (updateData.price !== undefined && updateData.price < 0) {
-      return res.status(422).json(fail('Price cannot be negative'));
+  // Perubahan stock_quantity dicatat di ledger sebagai adjustment sebesar selisihnya
+  const { stock_quantity, genre_ids, ...fields } = updateData;
+  const updatedBook = await stockTransaction(async (tx) => {
+    // Dengan If-Match, update bersyarat pada version yang sudah dicek, supaya penulis lain di antaranya tidak tertimpa
+    const updated = await tx.books.updateMany({
+      where: { id: book_id, ...(ifMatch && { version: existingBook.version }) },
+      data: fields
+    });
+    if (updated.count === 0) throw concurrentModification();
+    // Genre tambahan diganti jika genre_ids dikirim; genre utama yang baru dikeluarkan dari daftar tambahan
+    if (genre_ids || fields.genre_id) {
+      const genreId = fields.genre_id ?? existingBook.genre_id;
+      const genres = extraGenres(genreId, genre_ids ?? existingBook.genres.map((g) => g.id));
+      await tx.books.update({ where: { id: book_id }, data: { genres: { set: genres } } });
     }
-
-    // Validasi stock_quantity jika diupdate
-    if (updateData.stock_quantity !== undefined) {
-      if (!Number.isInteger(updateData.stock_quantity)) {
-        return res.status(422).json(fail('Stock quantity must be an integer'));
-      }
-      if (updateData.stock_quantity < 0) {
-        return res.status(422).json(fail('Stock quantity cannot be negative'));
-      }
+    if (stock_quantity !== undefined) {
+      await setStock(tx, book_id, stock_quantity, (req as AuthRequest).user.id, 'Stock set via PATCH /books');
     }
+    return tx.books.findUniqueOrThrow({ where: { id: book_id }, include: bookInclude });
+  });
 
-    // Validasi duplikat judul jika title diupdate
-    if (updateData.title && updateData.title !== existingBook.title) {
-      const duplicateTitle = await prisma.books.findFirst({
-        where: {
-          title: updateData.title,
-          deleted_at: null,
-          id: { not: book_id }
-        }
-      });
-
-      if (duplicateTitle) {
-        return res.status(400).json(fail('Book with this title already exists'));
-      }
+  res.set('ETag', bookEtag(updatedBook));
+  res.json(ok('Book updated successfully', updatedBook));
+};
+
+// DELETE /books/:book_id - Soft delete book
+export const deleteBook = async (req: Request, res: Response) => {
+  const { book_id } = req.params;
+
+  const ifMatch = req.get('If-Match');
+
+  const book = await prisma.books.findFirst({
+    where: {
+      id: book_id,
+      deleted_at: null
+    },
+    include: bookInclude
+  });
+
+  if (!book) {
+    throw new NotFoundError('Book not found', { code: 'BOOK_NOT_FOUND' });
+  }
+
+  assertIfMatch(ifMatch, bookEtag(book));
+
+  // Soft delete
+  const deleted = await prisma.books.updateMany({
+    where: { id: book_id, ...(ifMatch && { version: book.version }) },
+    data: {
+      deleted_at: new Date()
     }
+  });
+  if (deleted.count === 0) throw concurrentModification();
+
+  res.json(ok('Book deleted successfully', { id: book_id }));
+};
 
-    // Validasi genre jika genre_id diupdate
-    if (updateData.genre_id) {
-      const genre = await prisma.genres.findUnique({
-        where: { id: updateData.genre_id }
-      });
+// POST /books/:book_id/restore - Batalkan soft delete
+export const restoreBook = async (req: Request, res: Response) => {
+  const { book_id } = req.params;
 
-      if (!genre) {
-        return res.status(404).json(fail('Genre not found'));
-      }
+  const book = await prisma.books.findUnique({
+    where: { id: book_id },
+    include: bookInclude
+  });
+
+  if (!book) {
+    throw new NotFoundError('Book not found', { code: 'BOOK_NOT_FOUND' });
+  }
+
+  if (!book.deleted_at) {
+    throw new ConflictError('Book is not deleted', { code: 'NOT_DELETED' });
+  }
+
+  // Judul bisa sudah dipakai ulang oleh buku lain selama buku ini terhapus
+  const duplicateTitle = await prisma.books.findFirst({
+    where: {
+      title: { equals: book.title, mode: 'insensitive' },
+      deleted_at: null
     }
+  });
 
-    const updatedBook = await prisma.books.update({
-      where: { id: book_id },
-      data: updateData,
-      include: {
-        genre: true
-      }
-    });
+  if (duplicateTitle) {
+    throw new ConflictError('Another book with this title already exists', { code: 'DUPLICATE_TITLE', details: { book_id: duplicateTitle.id } });
+  }
 
-    res.json(ok('Book updated successfully', updatedBook));
-  } catch (error) {
-    res.status(500).json(fail('Failed to update book'));
+  if (book.genre.deleted_at) {
+    throw new ConflictError('Genre of this book is deleted, restore or reassign it first', { code: 'GENRE_DELETED', details: { genre_id: book.genre_id } });
   }
+
+  const restored = await prisma.books.update({
+    where: { id: book_id },
+    data: { deleted_at: null },
+    include: bookInclude
+  });
+
+  res.json(ok('Book restored successfully', restored));
 };
 
-// DELETE /books/:book_id - Soft delete book
-export const deleteBook = async (req: Request, res: Response) => {
-  try {
-    const { book_id } = req.params;
+// DELETE /books/:book_id/purge - Hapus permanen buku yang sudah di-soft-delete
+export const purgeBook = async (req: Request, res: Response) => {
+  const { book_id } = req.params;
 
-    const book = await prisma.books.findFirst({
-      where: {
-        id: book_id,
-        deleted_at: null
-      }
-    });
+  const book = await prisma.books.findUnique({
+    where: { id: book_id },
+    include: { ...bookInclude, _count: { select: { order_items: true } } }
+  });
 
-    if (!book) {
-      return res.status(404).json(fail('Book not found'));
-    }
+  if (!book) {
+    throw new NotFoundError('Book not found', { code: 'BOOK_NOT_FOUND' });
+  }
 
-    // Soft delete
-    await prisma.books.update({
-      where: { id: book_id },
-      data: {
-        deleted_at: new Date()
-      }
-    });
+  if (!book.deleted_at) {
+    throw new ConflictError('Only deleted books can be purged, delete it first', { code: 'NOT_DELETED' });
+  }
 
-    res.json(ok('Book deleted successfully', { id: book_id }));
-  } catch (error) {
-    res.status(500).json(fail('Failed to delete book'));
+  assertIfMatch(req.get('If-Match'), bookEtag(book));
+
+  // Buku yang pernah dipesan harus tetap ada supaya riwayat transaksi utuh
+  if (book._count.order_items > 0) {
+    throw new ConflictError('Book has transaction history and cannot be purged', {
+      code: 'BOOK_HAS_ORDERS',
+      details: { order_items: book._count.order_items }
+    });
   }
+
+  // Ledger stok milik buku ini ikut dihapus (cart_items terhapus lewat cascade)
+  await prisma.$transaction([
+    prisma.stock_movements.deleteMany({ where: { book_id } }),
+    prisma.books.delete({ where: { id: book_id } })
+  ]);
+
+  res.json(ok('Book purged successfully', { id: book_id }));
 };
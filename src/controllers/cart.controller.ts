@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import * as svc from '../services/cart.service';
+import { AuthRequest } from '../middlewares/auth';
+import { ok } from '../utils/response';
+
+export const AddItemDto = z.object({ book_id: z.uuid(), quantity: z.number().int().min(1).default(1) });
+export const UpdateItemDto = z.object({ quantity: z.number().int().min(1) });
+export const PromoCode = z.string().trim().min(1).max(50);
+// ?promo_code= menampilkan pratinjau diskon terhadap isi cart saat ini
+export const CartQuery = z.object({ promo_code: PromoCode.optional() });
+export const CheckoutDto = z.object({ promo_code: PromoCode.optional() });
+
+export async function get(req: Request, res: Response) {
+  const { promo_code } = req.query as z.infer<typeof CartQuery>;
+  const data = await svc.get((req as AuthRequest).user.id, promo_code);
+  res.json(ok('Cart', data));
+}
+export async function addItem(req: Request, res: Response) {
+  const data = await svc.addItem((req as AuthRequest).user.id, req.body as z.infer<typeof AddItemDto>);
+  res.status(201).json(ok('Item added to cart', data));
+}
+export async function updateItem(req: Request, res: Response) {
+  const data = await svc.updateItem((req as AuthRequest).user.id, req.params.book_id, req.body.quantity);
+  res.json(ok('Cart item updated', data));
+}
+export async function removeItem(req: Request, res: Response) {
+  const data = await svc.removeItem((req as AuthRequest).user.id, req.params.book_id);
+  res.json(ok('Cart item removed', data));
+}
+export async function checkout(req: Request, res: Response) {
+  const { promo_code } = req.body as z.infer<typeof CheckoutDto>;
+  const data = await svc.checkout((req as AuthRequest).user.id, promo_code);
+  res.status(201).json(ok('Checkout successful', data));
+}
+export async function reserve(req: Request, res: Response) {
+  const data = await svc.reserve((req as AuthRequest).user.id);
+  res.status(201).json(ok('Cart items reserved', data));
+}
+export async function releaseReservation(req: Request, res: Response) {
+  const data = await svc.releaseReservation((req as AuthRequest).user.id);
+  res.json(ok('Reservation released', data));
+}
@@ -1,44 +1,52 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import * as svc from '../services/genre.service';
-import { ok, fail } from '../utils/response';
+import { ok } from '../utils/response';
+import { listQuery, ListQuery } from '../utils/query';
+import { NotFoundError } from '../utils/errors';
 
-const CreateDto = z.object({ name: z.string().min(1) });
-const UpdateDto = z.object({ name: z.string().min(1) });
+export const CreateDto = z.object({ name: z.string().trim().min(1) });
+export const UpdateDto = z.object({ name: z.string().trim().min(1) });
+export const RemoveQuery = z.object({ reassign_to: z.uuid().optional() });
+export const ListQueryDto = listQuery({
+  sort: ['name', 'created_at'],
+  defaultSort: 'name',
+  cursor: true,
+  softDelete: true,
+  filters: { name: { type: 'string', ops: ['eq', 'contains'] } },
+});
 
+// Nama duplikat (DUPLICATE_GENRE, 409) dilempar dari service dan ditangani errorHandler
 export async function create(req: Request, res: Response) {
-  const parsed = CreateDto.safeParse(req.body);
-  if (!parsed.success) return res.status(400).json(fail('Invalid body'));
-  try {
-    const data = await svc.create(parsed.data);
-    res.status(201).json(ok('Genre created', data));
-  } catch (e: any) {
-    if (e.code === 'P2002') return res.status(409).json(fail('Genre already exists'));
-    throw e;
-  }
+  const data = await svc.create(req.body as z.infer<typeof CreateDto>);
+  res.status(201).json(ok('Genre created', data));
 }
-export async function list(_req: Request, res: Response) {
-  const data = await svc.list();
-  res.json(ok('Genres', data));
+export async function list(req: Request, res: Response) {
+  const { items, pagination } = await svc.list(req.query as unknown as ListQuery);
+  res.json(ok('Genres', items, { pagination }));
 }
 export async function detail(req: Request, res: Response) {
   const data = await svc.detail(req.params.id);
-  if (!data) return res.status(404).json(fail('Genre not found'));
+  if (!data) throw new NotFoundError('Genre not found');
+  // If-None-Match yang cocok dijawab 304 oleh Express (req.fresh) tanpa body
+  res.set('ETag', svc.genreEtag(data));
   res.json(ok('Genre', data));
 }
 export async function update(req: Request, res: Response) {
-  const parsed = UpdateDto.safeParse(req.body);
-  if (!parsed.success) return res.status(400).json(fail('Invalid body'));
-  try {
-    const data = await svc.update(req.params.id, parsed.data);
-    res.json(ok('Genre updated', data));
-  } catch (e: any) {
-    if (e.code === 'DUPLICATE_GENRE')
-      return res.status(400).json(fail('Genre name already exists'));
-    throw e; // biar error lain tetap jalan
-  }
+  const data = await svc.update(req.params.id, req.body as z.infer<typeof UpdateDto>, req.get('If-Match'));
+  res.set('ETag', svc.genreEtag(data));
+  res.json(ok('Genre updated', data));
 }
 export async function remove(req: Request, res: Response) {
-  await svc.softDelete(req.params.id);
-  res.json(ok('Genre deleted', { id: req.params.id }));
+  const { reassign_to } = req.query as z.infer<typeof RemoveQuery>;
+  const data = await svc.softDelete(req.params.id, reassign_to, req.get('If-Match'));
+  res.json(ok('Genre deleted', { id: data.id, reassigned_to: reassign_to ?? null, reassigned_books: data.reassigned_books }));
+}
+export async function restore(req: Request, res: Response) {
+  const data = await svc.restore(req.params.id);
+  res.json(ok('Genre restored', data));
+}
+export async function purge(req: Request, res: Response) {
+  await svc.purge(req.params.id, req.get('If-Match'));
+  res.json(ok('Genre purged', { id: req.params.id }));
 }
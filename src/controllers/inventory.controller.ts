@@ -0,0 +1,53 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import * as svc from '../services/inventory.service';
+import { AuthRequest } from '../middlewares/auth';
+import { ok } from '../utils/response';
+import { listQuery, ListQuery } from '../utils/query';
+
+export const RestockDto = z.object({
+  quantity: z.number().int().min(1, { message: 'Quantity must be >= 1' }),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+// quantity adalah selisih (boleh negatif, misal -2 untuk buku rusak); alasan wajib diisi
+export const AdjustDto = z.object({
+  quantity: z.number().int().refine((q) => q !== 0, { message: 'Quantity cannot be 0' }),
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const HistoryQuery = listQuery({
+  sort: ['created_at'],
+  defaultSort: '-created_at',
+  cursor: true,
+  filters: {
+    type: { type: { enum: ['sale', 'restock', 'adjustment', 'cancellation', 'return', 'reservation', 'reservation_release'] }, ops: ['eq', 'in'] },
+    created_at: { type: 'date', ops: ['gte', 'lte'] },
+  },
+});
+
+export const LowStockQuery = listQuery({
+  sort: ['stock_quantity', 'title', 'reorder_threshold'],
+  defaultSort: 'stock_quantity',
+  cursor: true,
+  filters: { genre_id: { type: 'string', ops: ['eq', 'in'] } },
+});
+
+export async function restock(req: Request, res: Response) {
+  const { quantity, reason } = req.body as z.infer<typeof RestockDto>;
+  const data = await svc.restock(req.params.book_id, quantity, (req as AuthRequest).user.id, reason);
+  res.status(201).json(ok('Book restocked', data));
+}
+export async function adjust(req: Request, res: Response) {
+  const { quantity, reason } = req.body as z.infer<typeof AdjustDto>;
+  const data = await svc.adjust(req.params.book_id, quantity, (req as AuthRequest).user.id, reason);
+  res.status(201).json(ok('Stock adjusted', data));
+}
+export async function history(req: Request, res: Response) {
+  const { items, pagination, stock } = await svc.history(req.params.book_id, req.query as unknown as ListQuery);
+  res.json(ok('Stock history', { stock, movements: items }, { pagination }));
+}
+export async function lowStock(req: Request, res: Response) {
+  const { items, pagination } = await svc.lowStock(req.query as unknown as ListQuery);
+  res.json(ok('Low stock books', { books: items }, { pagination }));
+}
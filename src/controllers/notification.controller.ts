@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import * as svc from '../services/notification.service';
+import { AuthRequest } from '../middlewares/auth';
+import { ok } from '../utils/response';
+import { listQuery, ListQuery } from '../utils/query';
+
+export const ReadDto = z.object({ read: z.boolean() });
+
+// Query GET /notifications
+export const NotificationListQuery = listQuery({
+  sort: ['created_at'],
+  defaultSort: '-created_at',
+  cursor: true,
+  filters: {
+    read: { type: 'boolean', ops: ['eq'] },
+    type: { type: { enum: ['back_in_stock'] }, ops: ['eq'] },
+  },
+});
+
+// meta.unread_count = jumlah semua notifikasi belum dibaca (tidak terpengaruh filter)
+export async function list(req: Request, res: Response) {
+  const { items, pagination, unread } = await svc.list((req as AuthRequest).user.id, req.query as unknown as ListQuery);
+  res.json(ok('Notifications', items, { pagination, unread_count: unread }));
+}
+export async function setRead(req: Request, res: Response) {
+  const data = await svc.setRead(req.params.id, (req as AuthRequest).user.id, (req.body as z.infer<typeof ReadDto>).read);
+  res.json(ok('Notification updated', data));
+}
+export async function readAll(req: Request, res: Response) {
+  const data = await svc.readAll((req as AuthRequest).user.id);
+  res.json(ok('All notifications marked as read', data));
+}
@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import * as svc from '../services/promotion.service';
+import { ok } from '../utils/response';
+import { listQuery, ListQuery } from '../utils/query';
+
+// Kode disimpan huruf besar; pencocokan saat checkout tidak peka huruf besar/kecil
+const code = z.string().trim().regex(/^[A-Za-z0-9_-]{3,50}$/, { message: 'Code must be 3-50 letters, digits, - or _' });
+const money = z.number().min(0, { message: 'Amount cannot be negative' });
+const limit = z.number().int().min(1, { message: 'Limit must be >= 1' });
+
+const fields = {
+  code,
+  description: z.string().max(500).nullish(),
+  type: z.enum(['percentage', 'fixed']),
+  // percentage: 0-100 (dicek di service karena tergantung type), fixed: nominal rupiah
+  value: z.number().positive({ message: 'Value must be greater than 0' }),
+  min_order_amount: money.nullish(),
+  starts_at: z.coerce.date().nullish(),
+  ends_at: z.coerce.date().nullish(),
+  usage_limit: limit.nullish(),
+  per_user_limit: limit.nullish(),
+  active: z.boolean().optional(),
+  // Kosong = berlaku untuk semua buku
+  genre_ids: z.array(z.uuid()).optional(),
+  book_ids: z.array(z.uuid()).optional(),
+};
+
+export const CreateDto = z.object(fields);
+
+// PATCH: semua field opsional tapi minimal satu; genre_ids/book_ids menggantikan scope lama
+export const UpdateDto = z.object(fields).partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided' }
+);
+
+export const ListQueryDto = listQuery({
+  sort: ['code', 'created_at', 'ends_at', 'used_count'],
+  defaultSort: '-created_at',
+  cursor: true,
+  filters: {
+    code: { type: 'string', ops: ['eq', 'contains'] },
+    type: { type: { enum: ['percentage', 'fixed'] }, ops: ['eq'] },
+    active: { type: 'boolean', ops: ['eq'] },
+    ends_at: { type: 'date', ops: ['gte', 'lte'] },
+  },
+});
+
+export async function create(req: Request, res: Response) {
+  const data = await svc.create(req.body as z.infer<typeof CreateDto>);
+  res.status(201).json(ok('Promotion created', data));
+}
+export async function list(req: Request, res: Response) {
+  const { items, pagination } = await svc.list(req.query as unknown as ListQuery);
+  res.json(ok('Promotions', items, { pagination }));
+}
+export async function detail(req: Request, res: Response) {
+  const data = await svc.detail(req.params.id);
+  res.json(ok('Promotion', data));
+}
+export async function update(req: Request, res: Response) {
+  const data = await svc.update(req.params.id, req.body as z.infer<typeof UpdateDto>);
+  res.json(ok('Promotion updated', data));
+}
+export async function remove(req: Request, res: Response) {
+  await svc.remove(req.params.id);
+  res.json(ok('Promotion deleted', { id: req.params.id }));
+}
@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import * as svc from '../services/publisher.service';
+import { ok } from '../utils/response';
+import { listQuery, ListQuery } from '../utils/query';
+
+export const CreateDto = z.object({ name: z.string().trim().min(1) });
+export const UpdateDto = z.object({ name: z.string().trim().min(1) });
+export const RemoveQuery = z.object({ reassign_to: z.uuid().optional() });
+export const ListQueryDto = listQuery({
+  sort: ['name', 'created_at'],
+  defaultSort: 'name',
+  cursor: true,
+  search: 'search',
+  filters: { name: { type: 'string', ops: ['eq', 'contains'] } },
+});
+
+// Nama duplikat (DUPLICATE_PUBLISHER, 409) dilempar dari service dan ditangani errorHandler
+export async function create(req: Request, res: Response) {
+  const data = await svc.create(req.body as z.infer<typeof CreateDto>);
+  res.status(201).json(ok('Publisher created', data));
+}
+export async function list(req: Request, res: Response) {
+  const { items, pagination } = await svc.list(req.query as unknown as ListQuery);
+  res.json(ok('Publishers', items, { pagination }));
+}
+export async function detail(req: Request, res: Response) {
+  const data = await svc.detail(req.params.id);
+  res.set('ETag', svc.publisherEtag(data));
+  res.json(ok('Publisher', data));
+}
+// Tanpa ETag: angka penjualan berubah tanpa menaikkan version
+export async function statistics(req: Request, res: Response) {
+  const data = await svc.statistics(req.params.id);
+  res.json(ok('Publisher statistics', data));
+}
+export async function update(req: Request, res: Response) {
+  const data = await svc.update(req.params.id, req.body as z.infer<typeof UpdateDto>, req.get('If-Match'));
+  res.set('ETag', svc.publisherEtag(data));
+  res.json(ok('Publisher updated', data));
+}
+export async function remove(req: Request, res: Response) {
+  const { reassign_to } = req.query as z.infer<typeof RemoveQuery>;
+  const data = await svc.remove(req.params.id, reassign_to, req.get('If-Match'));
+  res.json(ok('Publisher deleted', data));
+}
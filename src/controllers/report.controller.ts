@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import * as svc from '../services/report.service';
+import { ok } from '../utils/response';
+import { toCsvLine } from '../utils/csv';
+
+// startDate/endDate sama dengan GET /transactions/statistics; format=csv untuk unduhan
+const baseQuery = {
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+};
+
+// Batasi ke buku milik satu author / publisher
+const scopeQuery = {
+  author_id: z.uuid().optional(),
+  publisher_id: z.uuid().optional(),
+};
+
+const rangeRefine = (q: { startDate?: Date; endDate?: Date }) => !q.startDate || !q.endDate || q.startDate <= q.endDate;
+const rangeMessage = { message: 'startDate must be before endDate', path: ['endDate'] };
+
+const isTimeZone = (tz: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const RangeQuery = z.object(baseQuery).refine(rangeRefine, rangeMessage);
+
+export const SalesQuery = z.object({
+  ...baseQuery,
+  interval: z.enum(['day', 'week', 'month']).default('day'),
+  tz: z.string().default('UTC').refine(isTimeZone, { message: 'Unknown time zone' }),
+}).refine(rangeRefine, rangeMessage);
+
+const topQuery = {
+  ...baseQuery,
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  metric: z.enum(['units', 'revenue']).default('revenue'),
+};
+
+export const TopQuery = z.object(topQuery).refine(rangeRefine, rangeMessage);
+
+export const TopBooksQuery = z.object({ ...topQuery, ...scopeQuery }).refine(rangeRefine, rangeMessage);
+
+export const GenreQuery = z.object({ ...baseQuery, ...scopeQuery }).refine(rangeRefine, rangeMessage);
+
+export const CustomerQuery = z.object({
+  ...baseQuery,
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+}).refine(rangeRefine, rangeMessage);
+
+type Format = 'json' | 'csv';
+
+// JSON memakai format respons standar; CSV dikirim sebagai file dengan kolom sesuai urutan columns
+function send(res: Response, format: Format, name: string, message: string, rows: Record<string, unknown>[], columns: string[], extra = {}) {
+  if (format === 'csv') {
+    res.attachment(`${name}-${new Date().toISOString().slice(0, 10)}.csv`);
+    res.type('text/csv; charset=utf-8');
+    res.send(toCsvLine(columns) + rows.map((row) => toCsvLine(columns.map((c) => row[c]))).join(''));
+    return;
+  }
+  res.json(ok(message, { ...extra, items: rows }));
+}
+
+export async function sales(req: Request, res: Response) {
+  const { format, interval, tz, ...range } = req.query as unknown as z.infer<typeof SalesQuery>;
+  const rows = await svc.timeSeries(range, interval, tz);
+  send(res, format, `sales-${interval}`, 'Sales over time', rows, ['period', 'orders', 'units', 'revenue', 'discounts'], { interval, tz });
+}
+
+export async function summary(req: Request, res: Response) {
+  const { format, ...range } = req.query as unknown as z.infer<typeof RangeQuery>;
+  const data = await svc.summary(range);
+  if (format === 'json') return res.json(ok('Sales summary', data));
+
+  // CSV: satu baris per metrik
+  const metrics = ['orders', 'units', 'revenue', 'discounts', 'average_order_value'] as const;
+  const rows = metrics.map((metric) => ({
+    metric,
+    current: data.current[metric],
+    previous: data.previous[metric],
+    change_pct: data.change_pct[metric],
+  }));
+  send(res, format, 'sales-summary', 'Sales summary', rows, ['metric', 'current', 'previous', 'change_pct']);
+}
+
+export async function topBooks(req: Request, res: Response) {
+  const { format, limit, metric, author_id, publisher_id, ...range } = req.query as unknown as z.infer<typeof TopBooksQuery>;
+  const rows = await svc.topBooks(range, limit, metric, { author_id, publisher_id });
+  send(res, format, 'top-books', 'Top books', rows, ['book_id', 'title', 'author', 'publisher', 'units', 'revenue'], { metric });
+}
+
+export async function topAuthors(req: Request, res: Response) {
+  const { format, limit, metric, ...range } = req.query as unknown as z.infer<typeof TopQuery>;
+  const rows = await svc.topAuthors(range, limit, metric);
+  send(res, format, 'top-authors', 'Top authors', rows, ['author_id', 'author', 'books', 'units', 'revenue'], { metric });
+}
+
+export async function topPublishers(req: Request, res: Response) {
+  const { format, limit, metric, ...range } = req.query as unknown as z.infer<typeof TopQuery>;
+  const rows = await svc.topPublishers(range, limit, metric);
+  send(res, format, 'top-publishers', 'Top publishers', rows, ['publisher_id', 'publisher', 'books', 'units', 'revenue'], { metric });
+}
+
+export async function genres(req: Request, res: Response) {
+  const { format, author_id, publisher_id, ...range } = req.query as unknown as z.infer<typeof GenreQuery>;
+  const rows = await svc.genreBreakdown(range, { author_id, publisher_id });
+  send(res, format, 'genre-sales', 'Sales per genre', rows, ['genre_id', 'genre_name', 'units', 'revenue', 'revenue_share']);
+}
+
+export async function customers(req: Request, res: Response) {
+  const { format, limit, ...range } = req.query as unknown as z.infer<typeof CustomerQuery>;
+  const rows = await svc.customerValue(range, limit);
+  send(res, format, 'customer-value', 'Customer lifetime value', rows,
+    ['user_id', 'username', 'email', 'orders', 'revenue', 'average_order_value', 'first_order_at', 'last_order_at']);
+}
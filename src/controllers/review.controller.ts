@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import * as svc from '../services/review.service';
+import { AuthRequest } from '../middlewares/auth';
+import { ok } from '../utils/response';
+import { listQuery, ListQuery } from '../utils/query';
+
+const rating = z.number().int({ message: 'Rating must be an integer' }).min(1, { message: 'Rating must be between 1 and 5' }).max(5, { message: 'Rating must be between 1 and 5' });
+
+// Body POST /books/:book_id/reviews
+export const CreateReviewDto = z.object({
+  rating,
+  comment: z.string().trim().min(1, { message: 'Comment is required' }).max(2000),
+});
+
+// Body PATCH /reviews/:id; minimal satu field
+export const UpdateReviewDto = CreateReviewDto.partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided' }
+);
+
+// Body PATCH /reviews/:id/moderation
+export const ModerateDto = z.object({
+  status: z.enum(['published', 'hidden']),
+  note: z.string().trim().max(500).optional(),
+});
+
+// Query GET /books/:book_id/reviews; filter status hanya berlaku untuk admin
+export const BookReviewListQuery = listQuery({
+  sort: ['created_at', 'rating'],
+  defaultSort: '-created_at',
+  cursor: true,
+  filters: {
+    rating: { type: 'int', ops: ['eq', 'gte', 'lte'] },
+    status: { type: { enum: ['published', 'hidden'] }, ops: ['eq'] },
+  },
+});
+
+// Query GET /reviews (admin)
+export const ReviewListQuery = listQuery({
+  sort: ['created_at', 'rating'],
+  defaultSort: '-created_at',
+  cursor: true,
+  filters: {
+    status: { type: { enum: ['published', 'hidden'] }, ops: ['eq'] },
+    book_id: { type: 'string', ops: ['eq'] },
+    user_id: { type: 'string', ops: ['eq'] },
+    rating: { type: 'int', ops: ['eq', 'gte', 'lte'] },
+    created_at: { type: 'date', ops: ['gte', 'lte'] },
+  },
+});
+
+// 403 REVIEW_NOT_ALLOWED jika belum pernah membeli, 409 REVIEW_EXISTS jika sudah pernah mereview
+export async function create(req: Request, res: Response) {
+  const data = await svc.create(req.params.book_id, (req as AuthRequest).user.id, req.body as z.infer<typeof CreateReviewDto>);
+  res.status(201).json(ok('Review created', data));
+}
+export async function listForBook(req: Request, res: Response) {
+  const user = (req as AuthRequest).user;
+  const { items, pagination, summary } = await svc.listForBook(req.params.book_id, req.query as unknown as ListQuery, user.role === 'admin');
+  res.json(ok('Reviews', items, { pagination, summary }));
+}
+export async function list(req: Request, res: Response) {
+  const { items, pagination } = await svc.list(req.query as unknown as ListQuery);
+  res.json(ok('Reviews', items, { pagination }));
+}
+export async function update(req: Request, res: Response) {
+  const data = await svc.update(req.params.id, (req as AuthRequest).user.id, req.body as z.infer<typeof UpdateReviewDto>);
+  res.json(ok('Review updated', data));
+}
+export async function remove(req: Request, res: Response) {
+  const user = (req as AuthRequest).user;
+  await svc.remove(req.params.id, user.role === 'admin' ? undefined : user.id);
+  res.json(ok('Review deleted', { id: req.params.id }));
+}
+export async function moderate(req: Request, res: Response) {
+  const { status, note } = req.body as z.infer<typeof ModerateDto>;
+  const data = await svc.moderate(req.params.id, (req as AuthRequest).user.id, status, note);
+  res.json(ok('Review moderated', data));
+}
@@ -0,0 +1,40 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import * as svc from '../services/user.service';
+import { AuthRequest } from '../middlewares/auth';
+import { ok } from '../utils/response';
+import { listQuery, ListQuery } from '../utils/query';
+
+export const RoleDto = z.object({ role: z.enum(['customer', 'admin']) });
+export const DisableDto = z.object({ reason: z.string().trim().max(500).optional() });
+
+// Query GET /users; search mencari di email dan username
+export const UserListQuery = listQuery({
+  sort: ['created_at', 'email', 'username'],
+  defaultSort: '-created_at',
+  cursor: true,
+  search: 'search',
+  softDelete: true,
+  filters: {
+    role: { type: { enum: ['customer', 'admin'] }, ops: ['eq'] },
+    disabled: { type: 'boolean', ops: ['eq'] },
+    created_at: { type: 'date', ops: ['gte', 'lte'] },
+  },
+});
+
+export async function list(req: Request, res: Response) {
+  const { items, pagination } = await svc.list(req.query as unknown as ListQuery);
+  res.json(ok('Users', items, { pagination }));
+}
+export async function updateRole(req: Request, res: Response) {
+  const data = await svc.setRole(req.params.id, (req.body as z.infer<typeof RoleDto>).role);
+  res.json(ok('User role updated', data));
+}
+export async function disable(req: Request, res: Response) {
+  const data = await svc.disable(req.params.id, (req as AuthRequest).user.id, (req.body as z.infer<typeof DisableDto>).reason);
+  res.json(ok('User disabled', data));
+}
+export async function enable(req: Request, res: Response) {
+  const data = await svc.enable(req.params.id);
+  res.json(ok('User enabled', data));
+}
@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import * as svc from '../services/wishlist.service';
+import { AuthRequest } from '../middlewares/auth';
+import { ok } from '../utils/response';
+import { listQuery, ListQuery } from '../utils/query';
+
+export const AddWishlistDto = z.object({ book_id: z.uuid() });
+
+// Query GET /wishlist
+export const WishlistQuery = listQuery({
+  sort: ['created_at'],
+  defaultSort: '-created_at',
+  cursor: true,
+});
+
+export async function list(req: Request, res: Response) {
+  const { items, pagination } = await svc.list((req as AuthRequest).user.id, req.query as unknown as ListQuery);
+  res.json(ok('Wishlist', items, { pagination }));
+}
+// 404 BOOK_NOT_FOUND, 409 ALREADY_IN_WISHLIST
+export async function add(req: Request, res: Response) {
+  const data = await svc.add((req as AuthRequest).user.id, (req.body as z.infer<typeof AddWishlistDto>).book_id);
+  res.status(201).json(ok('Book added to wishlist', data));
+}
+export async function remove(req: Request, res: Response) {
+  await svc.remove((req as AuthRequest).user.id, req.params.book_id);
+  res.json(ok('Book removed from wishlist', null));
+}
+// POST /books/:book_id/notify-me
+export async function subscribe(req: Request, res: Response) {
+  const data = await svc.subscribe((req as AuthRequest).user.id, req.params.book_id);
+  res.status(201).json(ok('You will be notified when this book is back in stock', data));
+}
+export async function unsubscribe(req: Request, res: Response) {
+  await svc.unsubscribe((req as AuthRequest).user.id, req.params.book_id);
+  res.json(ok('Stock notification cancelled', null));
+}
+export async function listSubscriptions(req: Request, res: Response) {
+  const data = await svc.listSubscriptions((req as AuthRequest).user.id);
+  res.json(ok('Stock notifications', data));
+}
@@ -0,0 +1,306 @@
+import { RequestHandler } from 'express';
+import { z } from 'zod';
+import { routers } from '../routes';
+import { authGuard, requireVerifiedEmail } from '../middlewares/auth';
+import { idempotent } from '../middlewares/idempotency';
+import { Schemas } from '../middlewares/validate';
+import { FieldType, ListQuerySpec, listQuerySpecs } from '../utils/query';
+import { RouteDoc, routeDocs } from './routes';
+import { components } from './schemas';
+
+// Dokumen OpenAPI 3.1 disusun dari routers (routes/index.ts): method, path dan middleware setiap route dibaca
+// langsung dari stack router Express, parameter dan body dari schema zod di validate(...), sisanya dari routeDocs.
+
+type Handler = RequestHandler & { schemas?: Schemas; roles?: string[] };
+type Layer = { handle: Handler; route?: { path: string; methods: Record<string, boolean>; stack: { handle: Handler }[] } };
+type JsonSchema = Record<string, unknown>;
+
+export type RouteInfo = { key: string; method: string; path: string; tag: string; handlers: Handler[] };
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+const ERRORS: Record<number, string> = {
+  400: 'Request salah bentuk (VALIDATION_ERROR dengan daftar errors) atau ditolak aturan bisnis',
+  401: 'Token tidak ada, tidak valid atau kedaluwarsa',
+  403: 'Role tidak diizinkan atau akun dinonaktifkan',
+  404: 'Data tidak ditemukan',
+  409: 'Konflik dengan data yang sudah ada',
+  412: 'If-Match tidak cocok dengan versi terbaru',
+  422: 'Body melanggar aturan validasi (VALIDATION_ERROR dengan daftar errors)',
+  429: 'Terlalu banyak request; tunggu sesuai header Retry-After',
+};
+
+// Semua route API beserta middleware yang berlaku, termasuk router.use(...) di atasnya (misal authGuard + admin)
+export function listRoutes(): RouteInfo[] {
+  const routes: RouteInfo[] = [];
+  for (const [prefix, router] of Object.entries(routers)) {
+    const shared: Handler[] = [];
+    for (const layer of router.stack as unknown as Layer[]) {
+      if (!layer.route) {
+        shared.push(layer.handle);
+        continue;
+      }
+      const path = layer.route.path === '/' ? prefix : prefix + layer.route.path;
+      for (const method of Object.keys(layer.route.methods).map((m) => m.toUpperCase())) {
+        routes.push({
+          key: `${method} ${path}`,
+          method,
+          path,
+          tag: prefix.slice(1),
+          handlers: [...shared, ...layer.route.stack.map((s) => s.handle)],
+        });
+      }
+    }
+  }
+  return routes;
+}
+
+// Route yang belum punya entri di routeDocs, dan entri routeDocs yang route-nya sudah tidak ada
+export function checkDocs() {
+  const keys = new Set(listRoutes().map((r) => r.key));
+  return {
+    undocumented: [...keys].filter((key) => !routeDocs[key]),
+    stale: Object.keys(routeDocs).filter((key) => !keys.has(key)),
+  };
+}
+
+// Tanggal di query (z.coerce.date) dikirim client sebagai string ISO 8601
+const toJsonOptions = {
+  unrepresentable: 'any',
+  override: (ctx: { zodSchema: z.core.$ZodTypes; jsonSchema: z.core.JSONSchema.BaseSchema }) => {
+    if (ctx.zodSchema._zod.def.type === 'date') Object.assign(ctx.jsonSchema, { type: 'string', format: 'date-time' });
+  },
+} as const;
+
+const strip = ({ $schema: _schema, $id: _id, ...json }: JsonSchema) => json;
+
+// Request dibaca dari sisi input schema (sebelum default/transform diterapkan)
+const requestSchema = (schema: z.ZodType) => strip(z.toJSONSchema(schema, { ...toJsonOptions, io: 'input' }) as JsonSchema);
+
+function fieldSchema(type: FieldType): JsonSchema {
+  if (typeof type === 'object') return { type: 'string', enum: [...type.enum] };
+  switch (type) {
+    case 'number': return { type: 'number' };
+    case 'int': return { type: 'integer' };
+    case 'date': return { type: 'string', format: 'date-time' };
+    case 'boolean': return { type: 'string', enum: ['true', 'false'] };
+    default: return { type: 'string' };
+  }
+}
+
+const queryParam = (name: string, schema: JsonSchema, description?: string) =>
+  ({ name, in: 'query', required: false, schema, ...(description && { description }) });
+
+// Parameter listQuery: pagination, sort, search, soft delete dan filter field[op]
+function listParams(spec: ListQuerySpec) {
+  const params = [
+    queryParam('page', { type: 'integer', minimum: 1, default: 1 }),
+    queryParam('limit', { type: 'integer', minimum: 1, maximum: spec.maxLimit ?? 100, default: spec.defaultLimit ?? 10 }),
+    queryParam('sort', { type: 'string', default: spec.defaultSort }, `Dipisah koma, awalan "-" = desc. Field: ${spec.sort.join(', ')}`),
+  ];
+  if (spec.cursor) params.push(queryParam('cursor', { type: 'string' }, 'meta.pagination.next_cursor dari halaman sebelumnya'));
+  if (spec.search) params.push(queryParam(spec.search, { type: 'string' }, 'Kata kunci pencarian'));
+  if (spec.softDelete) {
+    params.push(
+      queryParam('include_deleted', { type: 'string', enum: ['true', 'false'] }, 'Ikut tampilkan data yang dihapus (admin)'),
+      queryParam('only_deleted', { type: 'string', enum: ['true', 'false'] }, 'Hanya data yang dihapus (admin)')
+    );
+  }
+  for (const [field, { type, ops }] of Object.entries(spec.filters ?? {})) {
+    for (const op of ops) {
+      if (op === 'in') params.push(queryParam(`${field}[in]`, { type: 'string' }, `Beberapa nilai ${field} dipisah koma`));
+      else params.push(queryParam(op === 'eq' ? field : `${field}[${op}]`, fieldSchema(type)));
+    }
+  }
+  return params;
+}
+
+function objectParams(schema: z.ZodType, location: 'path' | 'query') {
+  const json = requestSchema(schema) as { properties?: Record<string, JsonSchema>; required?: string[] };
+  return Object.entries(json.properties ?? {}).map(([name, property]) => {
+    const { description, ...rest } = property;
+    return { name, in: location, required: location === 'path' || Boolean(json.required?.includes(name)), schema: rest, ...(description !== undefined && { description }) };
+  });
+}
+
+function queryParams(schema: z.ZodType): JsonSchema[] {
+  const spec = listQuerySpecs.get(schema);
+  if (spec) return listParams(spec);
+  if (schema instanceof z.ZodIntersection) {
+    return [...queryParams(schema.def.left as z.ZodType), ...queryParams(schema.def.right as z.ZodType)];
+  }
+  return objectParams(schema, 'query');
+}
+
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, '{$1}');
+
+// "GET /books/:book_id/reviews" -> getBooksByBookIdReviews
+function operationId(method: string, path: string) {
+  const words = [method, ...path.split('/').flatMap((part) => (part.startsWith(':') ? ['by', part.slice(1)] : [part]))]
+    .join(' ')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+  return words.map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1))).join('');
+}
+
+function operation(route: RouteInfo, doc: RouteDoc, response: (schema: z.ZodType) => JsonSchema) {
+  const schemas = route.handlers.find((h) => h.schemas)?.schemas ?? {};
+  const roles = [...new Set(route.handlers.flatMap((h) => h.roles ?? []))];
+  const secured = route.handlers.includes(authGuard);
+
+  const parameters: JsonSchema[] = [
+    ...(schemas.params ? objectParams(schemas.params, 'path') : []),
+    ...(schemas.query ? queryParams(schemas.query) : []),
+  ];
+  if (route.handlers.includes(idempotent)) parameters.push({ $ref: '#/components/parameters/IdempotencyKey' });
+  if (doc.ifMatch) parameters.push({ $ref: '#/components/parameters/IfMatch' });
+
+  const content: Record<string, { schema: JsonSchema }> = {};
+  let required = false;
+  if (schemas.body) {
+    const body = requestSchema(schemas.body);
+    content['application/json'] = { schema: body };
+    required = Array.isArray(body.required) && body.required.length > 0;
+  }
+  for (const [type, schema] of Object.entries(doc.body ?? {})) {
+    content[type] = { schema: requestSchema(schema) };
+    required = true;
+  }
+
+  const headers = {
+    ...(doc.etag && { ETag: { $ref: '#/components/headers/ETag' } }),
+    ...(route.handlers.includes(idempotent) && { 'Idempotent-Replayed': { $ref: '#/components/headers/IdempotentReplayed' } }),
+  };
+  const success = doc.file
+    ? Object.fromEntries(Object.entries(doc.file).map(([type, schema]) => [type, { schema: response(schema) }]))
+    : {
+        'application/json': {
+          schema: { allOf: [ref('ApiSuccess'), { type: 'object', properties: { data: doc.data ? response(doc.data) : { type: 'null' } } }] },
+        },
+        ...(doc.csv && { 'text/csv': { schema: { type: 'string' } } }),
+      };
+
+  const errors = new Set(doc.errors);
+  if (schemas.params || schemas.query || schemas.body) errors.add(400);
+  if (schemas.body) errors.add(422);
+  if (secured) errors.add(401).add(403);
+  if (roles.length) errors.add(403);
+  if (schemas.params) errors.add(404);
+  if (doc.ifMatch) errors.add(412);
+  // Limit global untuk semua request yang mengubah data (policies.write di app.ts)
+  if (route.method !== 'GET') errors.add(429);
+
+  const notes = [
+    doc.description,
+    roles.length > 0 && `Hanya untuk role: ${roles.join(', ')}.`,
+    route.handlers.includes(requireVerifiedEmail) && 'Butuh email terverifikasi jika REQUIRE_VERIFIED_EMAIL=true.',
+  ].filter(Boolean);
+
+  return {
+    operationId: operationId(route.method, route.path),
+    tags: [route.tag],
+    summary: doc.summary,
+    ...(notes.length && { description: notes.join('\n\n') }),
+    ...(secured && { security: [{ bearerAuth: [] }] }),
+    ...(parameters.length && { parameters }),
+    ...(Object.keys(content).length && { requestBody: { required, content } }),
+    responses: {
+      [doc.status ?? 200]: { description: doc.summary, ...(Object.keys(headers).length && { headers }), content: success },
+      ...Object.fromEntries([...errors].sort((a, b) => a - b).map((status) => [status, { $ref: `#/components/responses/Error${status}` }])),
+    },
+  };
+}
+
+export function buildOpenApi() {
+  const routes = listRoutes().filter((route) => routeDocs[route.key]);
+
+  // Semua skema respons dikonversi sekaligus lewat satu registry, jadi Book, Genre, dst. di dalamnya menjadi $ref.
+  // Skema yang bukan komponen diberi id sementara lalu ditulis inline di operasinya.
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(components)) registry.add(schema, { id });
+  const inline = new Set<string>();
+  const register = (schema: z.ZodType) => {
+    if (!registry.has(schema)) {
+      const id = `_inline${inline.size}`;
+      inline.add(id);
+      registry.add(schema, { id });
+    }
+  };
+  for (const { key } of routes) {
+    const doc = routeDocs[key];
+    if (doc.data) register(doc.data);
+    Object.values(doc.file ?? {}).forEach(register);
+  }
+
+  const converted = z.toJSONSchema(registry, { ...toJsonOptions, uri: (id) => ref(id).$ref }).schemas;
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [id, schema] of Object.entries(converted)) {
+    if (!inline.has(id)) schemas[id] = strip(schema as JsonSchema);
+  }
+  const response = (schema: z.ZodType) => {
+    const id = registry.get(schema)!.id;
+    return inline.has(id) ? strip(converted[id] as JsonSchema) : ref(id);
+  };
+
+  schemas.ApiSuccess = {
+    type: 'object',
+    required: ['success', 'message', 'data'],
+    properties: {
+      success: { const: true },
+      message: { type: 'string' },
+      data: { description: 'Isi berbeda per endpoint' },
+      meta: ref('ApiMeta'),
+    },
+  };
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    const path = (paths[toOpenApiPath(route.path)] ??= {});
+    path[route.method.toLowerCase()] = operation(route, routeDocs[route.key], response);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Bookstore API',
+      version: '1.0.0',
+      description:
+        'Semua respons JSON memakai envelope ApiSuccess ({ success: true, message, data, meta }) atau ApiError ' +
+        '({ success: false, message, code, request_id, details, errors }). Setiap respons membawa header X-Request-Id.',
+    },
+    tags: Object.keys(routers).map((prefix) => ({ name: prefix.slice(1) })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'access_token dari POST /auth/login' },
+      },
+      schemas,
+      parameters: {
+        IdempotencyKey: {
+          name: 'Idempotency-Key',
+          in: 'header',
+          required: false,
+          schema: { type: 'string', maxLength: 255 },
+          description: 'Retry dengan key yang sama mendapat respons pertama, tanpa mengeksekusi ulang',
+        },
+        IfMatch: {
+          name: 'If-Match',
+          in: 'header',
+          required: false,
+          schema: { type: 'string' },
+          description: 'ETag dari GET detail; ditolak dengan 412 jika data sudah berubah',
+        },
+      },
+      headers: {
+        ETag: { schema: { type: 'string' }, description: 'Versi data, untuk header If-Match' },
+        IdempotentReplayed: { schema: { type: 'string', enum: ['true'] }, description: 'Ada jika respons diambil dari Idempotency-Key sebelumnya' },
+      },
+      responses: Object.fromEntries(
+        Object.entries(ERRORS).map(([status, description]) => [
+          `Error${status}`,
+          { description, content: { 'application/json': { schema: ref('ApiError') } } },
+        ])
+      ),
+    },
+  };
+}
@@ -0,0 +1,274 @@
+import { z } from 'zod';
+import { BookImportRowDto } from '../controllers/book.controller';
+import * as s from './schemas';
+
+// Dokumentasi per route, key "METHOD /path" persis seperti path Express (dengan :param).
+// Parameter, body, auth dan status error umum dibaca dari middleware route (validate, authGuard, requireRole, ...),
+// jadi di sini cukup ringkasan dan bentuk data respons sukses.
+// Route baru wajib ditambahkan di sini; npm test gagal jika ada route yang belum terdokumentasi (test/openapi.test.ts).
+export type RouteDoc = {
+  summary: string;
+  description?: string;
+  // Status respons sukses, default 200
+  status?: number;
+  // Isi field data di envelope ApiSuccess; tanpa ini data = null
+  data?: z.ZodType;
+  // Respons berupa file (bukan envelope JSON), per content type
+  file?: Record<string, z.ZodType>;
+  // ?format=csv mengirim file CSV sebagai ganti envelope JSON
+  csv?: boolean;
+  // Body dengan content type selain JSON dari validate({ body })
+  body?: Record<string, z.ZodType>;
+  // Respons membawa header ETag
+  etag?: boolean;
+  // Menerima header If-Match (412 jika versi sudah berubah)
+  ifMatch?: boolean;
+  // Status error yang dilempar service, selain yang diturunkan dari middleware (400/401/403/404/429)
+  errors?: number[];
+};
+
+const BookRow = s.Book.omit({ genre: true, genres: true, author: true, publisher: true });
+const Facet = z.array(z.object({ id: z.string().optional(), name: z.string().optional(), count: z.int() }).loose());
+const Statistics = z.object({
+  orders: z.number(),
+  units: z.number(),
+  revenue: z.number(),
+  discounts: z.number(),
+  average_order_value: z.number(),
+}).loose();
+const ReassignResult = z.object({ id: z.uuid(), reassigned_to: z.uuid().nullable(), reassigned_books: z.int() });
+const ImportRows = z.array(BookImportRowDto);
+
+export const routeDocs: Record<string, RouteDoc> = {
+  'GET /health-check': { summary: 'Cek status service', data: z.object({ date: z.iso.datetime() }) },
+
+  'POST /auth/register': { summary: 'Daftar akun customer', status: 201, data: s.User.omit({ created_at: true }), errors: [409] },
+  'POST /auth/login': {
+    summary: 'Login dengan email dan password',
+    description: 'Akun dikunci sementara setelah beberapa kali gagal (429 ACCOUNT_LOCKED).',
+    data: s.Tokens,
+  },
+  'POST /auth/refresh': { summary: 'Tukar refresh token dengan pasangan token baru (rotasi)', data: s.Tokens },
+  'POST /auth/logout': { summary: 'Cabut refresh token' },
+  'POST /auth/logout-all': { summary: 'Cabut semua sesi user' },
+  'POST /auth/forgot-password': { summary: 'Kirim link reset password ke email' },
+  'POST /auth/reset-password': { summary: 'Reset password dengan token dari email' },
+  'POST /auth/verify-email': { summary: 'Verifikasi email dengan token dari email' },
+  'POST /auth/resend-verification': { summary: 'Kirim ulang email verifikasi' },
+  'GET /auth/me': { summary: 'Profil user yang login', data: s.Profile },
+  'PATCH /auth/me': { summary: 'Ubah profil', data: s.Profile },
+  'DELETE /auth/me': { summary: 'Hapus (anonimkan) akun sendiri', errors: [409] },
+  'POST /auth/change-password': { summary: 'Ganti password; sesi lain dicabut', data: s.Tokens },
+  'POST /auth/change-email': {
+    summary: 'Minta ganti email; link konfirmasi dikirim ke email baru',
+    data: z.object({ pending_email: z.email() }),
+    errors: [409],
+  },
+  'POST /auth/confirm-email-change': { summary: 'Konfirmasi ganti email dengan token', data: s.Profile, errors: [409] },
+
+  'POST /genre': { summary: 'Buat genre', status: 201, data: s.Genre, errors: [409] },
+  'GET /genre': { summary: 'Daftar genre', data: z.array(s.Genre) },
+  'GET /genre/:id': { summary: 'Detail genre', data: s.Genre, etag: true },
+  'PATCH /genre/:id': { summary: 'Ubah genre', data: s.Genre, etag: true, ifMatch: true, errors: [409] },
+  'DELETE /genre/:id': {
+    summary: 'Soft delete genre',
+    description: 'Genre yang masih dipakai buku (genre utama atau tambahan) hanya bisa dihapus dengan ?reassign_to=<genre_id>.',
+    data: s.Genre.extend({ reassigned_books: z.int(), retagged_books: z.int() }),
+    ifMatch: true,
+    errors: [409],
+  },
+  'POST /genre/:id/restore': { summary: 'Pulihkan genre yang di-soft delete', data: s.Genre, errors: [409] },
+  'DELETE /genre/:id/purge': { summary: 'Hapus permanen genre yang sudah di-soft delete', data: s.Deleted, ifMatch: true, errors: [409] },
+
+  'POST /authors': { summary: 'Buat author', status: 201, data: s.Author, errors: [409] },
+  'GET /authors': {
+    summary: 'Daftar author',
+    data: z.array(s.Author.extend({ _count: z.object({ books: z.int() }) })),
+  },
+  'GET /authors/:id': { summary: 'Detail author', data: s.Author, etag: true },
+  'GET /authors/:id/statistics': {
+    summary: 'Statistik penjualan semua buku author',
+    description: 'Tanpa ETag: angka berubah setiap ada penjualan tanpa menaikkan version author.',
+    data: Statistics,
+  },
+  'GET /authors/:id/books': { summary: 'Buku milik author', data: s.Books },
+  'PATCH /authors/:id': { summary: 'Ubah nama author', data: s.Author, etag: true, ifMatch: true, errors: [409] },
+  'DELETE /authors/:id': {
+    summary: 'Hapus author',
+    description: 'Author yang masih punya buku hanya bisa dihapus dengan ?reassign_to=<author_id>.',
+    data: ReassignResult,
+    ifMatch: true,
+    errors: [409],
+  },
+
+  'POST /publishers': { summary: 'Buat publisher', status: 201, data: s.Publisher, errors: [409] },
+  'GET /publishers': {
+    summary: 'Daftar publisher',
+    data: z.array(s.Publisher.extend({ _count: z.object({ books: z.int() }) })),
+  },
+  'GET /publishers/:id': { summary: 'Detail publisher', data: s.Publisher, etag: true },
+  'GET /publishers/:id/statistics': {
+    summary: 'Statistik penjualan semua buku publisher',
+    description: 'Tanpa ETag: angka berubah setiap ada penjualan tanpa menaikkan version publisher.',
+    data: Statistics,
+  },
+  'GET /publishers/:id/books': { summary: 'Buku terbitan publisher', data: s.Books },
+  'PATCH /publishers/:id': { summary: 'Ubah nama publisher', data: s.Publisher, etag: true, ifMatch: true, errors: [409] },
+  'DELETE /publishers/:id': {
+    summary: 'Hapus publisher',
+    description: 'Publisher yang masih punya buku hanya bisa dihapus dengan ?reassign_to=<publisher_id>.',
+    data: ReassignResult,
+    ifMatch: true,
+    errors: [409],
+  },
+
+  'POST /books': { summary: 'Tambah buku', status: 201, data: s.Book, errors: [409] },
+  'GET /books': { summary: 'Daftar buku', data: s.Books },
+  'POST /books/import': {
+    summary: 'Import buku dari CSV atau JSON',
+    description: 'CSV: baris pertama header, kolom sama dengan export. JSON: array buku atau { "books": [...] }.',
+    body: {
+      'application/json': z.union([ImportRows, z.object({ books: ImportRows })]),
+      'text/csv': z.string(),
+    },
+    data: s.ImportReport,
+  },
+  'GET /books/export': {
+    summary: 'Export katalog buku',
+    file: {
+      'text/csv': z.string(),
+      'application/json': z.array(z.record(z.string(), z.unknown())),
+    },
+  },
+  'GET /books/low-stock': {
+    summary: 'Buku dengan stok di bawah reorder_threshold',
+    data: z.object({ books: z.array(s.Book.extend({ shortage: z.int() })) }),
+  },
+  'GET /books/search': {
+    summary: 'Pencarian full-text buku dengan facet',
+    data: z.object({
+      books: z.array(s.Book.extend({ relevance: z.number().optional() })),
+      facets: z.object({ genres: Facet, authors: Facet, publishers: Facet, price: Facet }).loose(),
+    }),
+  },
+  'GET /books/:book_id': { summary: 'Detail buku', data: s.Book, etag: true },
+  'POST /books/:book_id/restock': { summary: 'Tambah stok buku', status: 201, data: BookRow },
+  'POST /books/:book_id/adjust': {
+    summary: 'Koreksi stok buku (positif atau negatif)',
+    status: 201,
+    data: BookRow,
+    errors: [409],
+  },
+  'GET /books/:book_id/stock-history': {
+    summary: 'Riwayat pergerakan stok buku',
+    data: z.object({
+      stock: z.object({
+        book_id: z.uuid(),
+        stock_quantity: z.int(),
+        reorder_threshold: z.int(),
+        ledger_balance: z.int(),
+        in_sync: z.boolean(),
+      }),
+      movements: z.array(s.StockMovement),
+    }),
+  },
+  'POST /books/:book_id/reviews': { summary: 'Tulis review buku', status: 201, data: s.Review, errors: [409] },
+  'GET /books/:book_id/reviews': {
+    summary: 'Review buku',
+    description: 'meta.summary berisi average_rating, review_count dan distribusi bintang 1-5.',
+    data: z.array(s.Review),
+  },
+  'POST /books/:book_id/notify-me': {
+    summary: 'Minta notifikasi saat stok buku kembali',
+    status: 201,
+    data: s.StockSubscription,
+    errors: [409],
+  },
+  'DELETE /books/:book_id/notify-me': { summary: 'Batalkan notifikasi stok buku' },
+  'GET /books/genre/:genre_id': { summary: 'Buku per genre (utama atau tambahan)', data: s.Books },
+  'PATCH /books/:book_id': { summary: 'Ubah buku', data: s.Book, etag: true, ifMatch: true, errors: [409] },
+  'DELETE /books/:book_id': { summary: 'Soft delete buku', data: s.Deleted, ifMatch: true },
+  'POST /books/:book_id/restore': { summary: 'Pulihkan buku yang di-soft delete', data: s.Book, errors: [409] },
+  'DELETE /books/:book_id/purge': {
+    summary: 'Hapus permanen buku yang sudah di-soft delete',
+    data: s.Deleted,
+    ifMatch: true,
+    errors: [409],
+  },
+
+  'POST /transactions': { summary: 'Buat order', status: 201, data: s.Order, errors: [409] },
+  'GET /transactions': {
+    summary: 'Daftar order (customer hanya order miliknya)',
+    data: z.object({ transactions: z.array(s.Order) }),
+  },
+  'GET /transactions/statistics': {
+    summary: 'Statistik transaksi',
+    data: z.object({
+      totalTransactions: z.number(),
+      totalRevenue: z.number(),
+      averageTransactionAmount: z.number(),
+      genreWithMostSales: z.object({ genreName: z.string(), totalSold: z.number(), totalRevenue: z.number() }),
+      genreWithLeastSales: z.object({ genreName: z.string(), totalSold: z.number(), totalRevenue: z.number() }),
+    }),
+  },
+  'GET /transactions/:transaction_id': { summary: 'Detail order', data: s.Order },
+  'PATCH /transactions/:transaction_id/status': { summary: 'Ubah status order', data: s.Order, errors: [409] },
+  'POST /transactions/:transaction_id/cancel': { summary: 'Batalkan order; stok dikembalikan', data: s.Order, errors: [409] },
+  'POST /transactions/:transaction_id/refund': { summary: 'Refund order; stok dikembalikan', data: s.Order, errors: [409] },
+
+  'GET /users': { summary: 'Daftar user', data: z.array(s.AdminUser) },
+  'PATCH /users/:id/role': { summary: 'Ubah role user', data: s.User, errors: [409] },
+  'POST /users/:id/disable': { summary: 'Nonaktifkan akun user; semua sesinya dicabut', data: s.AdminUser, errors: [409] },
+  'POST /users/:id/enable': { summary: 'Aktifkan kembali akun user', data: s.AdminUser },
+
+  'GET /cart': { summary: 'Isi cart dengan harga dan stok terkini', data: s.Cart },
+  'POST /cart/items': { summary: 'Tambah buku ke cart', status: 201, data: s.Cart, errors: [409] },
+  'PATCH /cart/items/:book_id': { summary: 'Ubah jumlah item cart', data: s.Cart, errors: [409] },
+  'DELETE /cart/items/:book_id': { summary: 'Hapus item dari cart', data: s.Cart },
+  'POST /cart/reservation': { summary: 'Tahan stok item cart sementara', status: 201, data: s.Cart, errors: [409] },
+  'DELETE /cart/reservation': { summary: 'Lepas reservasi stok', data: s.Cart },
+  'POST /cart/checkout': { summary: 'Checkout cart menjadi order', status: 201, data: s.Order, errors: [409] },
+
+  'GET /audit-logs': { summary: 'Audit log perubahan data', data: z.array(s.AuditLog) },
+
+  'GET /reports/sales': {
+    summary: 'Penjualan per periode',
+    data: s.ReportRows.extend({ interval: z.string(), tz: z.string() }),
+    csv: true,
+  },
+  'GET /reports/summary': {
+    summary: 'Ringkasan penjualan dibanding periode sebelumnya',
+    data: z.object({ current: Statistics, previous: Statistics, change_pct: z.record(z.string(), z.number().nullable()) }),
+    csv: true,
+  },
+  'GET /reports/top-books': { summary: 'Buku terlaris', data: s.ReportRows, csv: true },
+  'GET /reports/top-authors': { summary: 'Author terlaris', data: s.ReportRows, csv: true },
+  'GET /reports/top-writers': { summary: 'Alias lama GET /reports/top-authors', data: s.ReportRows, csv: true },
+  'GET /reports/top-publishers': { summary: 'Publisher terlaris', data: s.ReportRows, csv: true },
+  'GET /reports/genres': { summary: 'Penjualan per genre', data: s.ReportRows, csv: true },
+  'GET /reports/customers': { summary: 'Customer dengan belanja terbesar', data: s.ReportRows, csv: true },
+
+  'POST /promotions': { summary: 'Buat kode promo', status: 201, data: s.Promotion, errors: [409] },
+  'GET /promotions': { summary: 'Daftar promo', data: z.array(s.Promotion) },
+  'GET /promotions/:id': { summary: 'Detail promo', data: s.Promotion },
+  'PATCH /promotions/:id': { summary: 'Ubah promo', data: s.Promotion, errors: [409] },
+  'DELETE /promotions/:id': { summary: 'Hapus promo', data: s.Deleted, errors: [409] },
+
+  'GET /reviews': { summary: 'Semua review (moderasi)', data: z.array(s.Review.extend({ book: z.object({ id: z.uuid(), title: z.string() }) })) },
+  'PATCH /reviews/:id': { summary: 'Ubah review sendiri', data: s.Review },
+  'DELETE /reviews/:id': { summary: 'Hapus review (pemilik atau admin)', data: s.Deleted },
+  'PATCH /reviews/:id/moderation': { summary: 'Sembunyikan atau tampilkan review', data: s.Review },
+
+  'GET /wishlist': { summary: 'Wishlist user', data: z.array(s.WishlistItem) },
+  'POST /wishlist': { summary: 'Tambah buku ke wishlist', status: 201, data: s.WishlistItem, errors: [409] },
+  'DELETE /wishlist/:book_id': { summary: 'Hapus buku dari wishlist' },
+
+  'GET /notifications': {
+    summary: 'Notifikasi user',
+    description: 'meta.unread_count berisi jumlah notifikasi yang belum dibaca.',
+    data: z.array(s.Notification),
+  },
+  'GET /notifications/subscriptions': { summary: 'Buku yang ditunggu stoknya', data: z.array(s.StockSubscription) },
+  'POST /notifications/read-all': { summary: 'Tandai semua notifikasi sudah dibaca', data: z.object({ updated: z.int() }) },
+  'PATCH /notifications/:id': { summary: 'Tandai notifikasi dibaca / belum dibaca', data: s.Notification },
+};
@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import { AuditAction, DiscountType, NotificationType, OrderStatus, ReviewStatus, Role, StockMovementType } from '@prisma/client';
+import type { ApiError as ApiErrorBody } from '../utils/response';
+
+// Bentuk respons untuk dokumen OpenAPI. Request tidak perlu didefinisikan di sini: body, query dan params
+// diambil langsung dari DTO yang dipasang di validate(...).
+
+const id = z.uuid();
+const timestamp = z.iso.datetime();
+// Prisma.Decimal diserialisasi sebagai string supaya presisi tidak hilang
+const decimal = () => z.string().meta({ description: 'Decimal sebagai string', example: '125000' });
+
+const FieldError = z.object({ in: z.enum(['params', 'query', 'body']), field: z.string(), message: z.string() });
+
+export const ApiError = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  code: z.string().meta({ example: 'BOOK_NOT_FOUND' }),
+  request_id: z.string().optional(),
+  details: z.unknown().optional(),
+  errors: z.array(FieldError).optional().meta({ description: 'Hanya untuk VALIDATION_ERROR' }),
+}) satisfies z.ZodType<ApiErrorBody>;
+
+export const Pagination = z.object({
+  page: z.int().nullable().meta({ description: 'null untuk cursor pagination' }),
+  limit: z.int(),
+  total: z.int().nullable(),
+  total_pages: z.int().nullable(),
+  has_more: z.boolean(),
+  next_cursor: z.string().nullable(),
+});
+
+export const ApiMeta = z.looseObject({ pagination: Pagination.optional() });
+
+export const Genre = z.object({
+  id,
+  name: z.string(),
+  version: z.int(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  deleted_at: timestamp.nullable(),
+});
+
+const named = () => z.object({ id, name: z.string(), version: z.int(), created_at: timestamp, updated_at: timestamp });
+export const Author = named();
+export const Publisher = named();
+
+export const Book = z.object({
+  id,
+  title: z.string(),
+  author_id: id,
+  publisher_id: id,
+  genre_id: id.meta({ description: 'Genre utama' }),
+  publication_year: z.int(),
+  description: z.string().nullable(),
+  price: decimal(),
+  stock_quantity: z.int(),
+  reorder_threshold: z.int(),
+  average_rating: decimal(),
+  review_count: z.int(),
+  version: z.int(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  deleted_at: timestamp.nullable(),
+  genre: Genre,
+  genres: z.array(Genre).meta({ description: 'Genre tambahan' }),
+  author: Author,
+  publisher: Publisher,
+});
+
+export const Books = z.object({ books: z.array(Book) });
+
+const UserRef = z.object({ id, username: z.string().nullable(), email: z.email() });
+
+export const Order = z.object({
+  id,
+  user_id: id,
+  total_amount: decimal(),
+  discount_amount: decimal(),
+  promotion_id: id.nullable(),
+  promotion_code: z.string().nullable(),
+  status: z.enum(OrderStatus),
+  created_at: timestamp,
+  updated_at: timestamp,
+  user: UserRef,
+  order_items: z.array(z.object({
+    id,
+    order_id: id,
+    book_id: id,
+    quantity: z.int(),
+    unit_price: decimal().meta({ description: 'Harga saat order dibuat' }),
+    created_at: timestamp,
+    updated_at: timestamp,
+    book: Book,
+  })),
+  status_history: z.array(z.object({
+    id,
+    order_id: id,
+    from_status: z.enum(OrderStatus).nullable(),
+    to_status: z.enum(OrderStatus),
+    changed_by: id.nullable(),
+    note: z.string().nullable(),
+    created_at: timestamp,
+  })),
+});
+
+export const Tokens = z.object({ access_token: z.string(), refresh_token: z.string() });
+
+export const Profile = z.object({
+  id,
+  email: z.email(),
+  username: z.string().nullable(),
+  role: z.enum(Role),
+  email_verified_at: timestamp.nullable(),
+  pending_email: z.email().nullable(),
+});
+
+export const User = z.object({ id, email: z.email(), username: z.string().nullable(), role: z.enum(Role), created_at: timestamp });
+
+export const AdminUser = User.extend({
+  email_verified_at: timestamp.nullable(),
+  disabled_at: timestamp.nullable(),
+  disabled_reason: z.string().nullable(),
+  locked_until: timestamp.nullable(),
+  deleted_at: timestamp.nullable(),
+  _count: z.object({ orders: z.int() }),
+});
+
+export const Cart = z.object({
+  items: z.array(z.object({
+    book_id: id,
+    quantity: z.int(),
+    unit_price: decimal(),
+    line_total: decimal(),
+    stock_quantity: z.int(),
+    reserved_quantity: z.int(),
+    unavailable: z.boolean(),
+    insufficient_stock: z.boolean(),
+    book: Book,
+  })),
+  subtotal: decimal(),
+  promotion: z.object({
+    code: z.string(),
+    valid: z.boolean(),
+    eligible_subtotal: decimal().optional(),
+    discount: decimal(),
+    error_code: z.string().optional(),
+    message: z.string().optional(),
+  }).optional().meta({ description: 'Hanya jika ?promo_code diisi' }),
+  total: decimal().optional(),
+  reservation: z.object({
+    expires_at: timestamp,
+    items: z.array(z.object({ book_id: id, quantity: z.int() })),
+  }).nullable(),
+  can_checkout: z.boolean(),
+});
+
+export const Review = z.object({
+  id,
+  book_id: id,
+  user_id: id,
+  rating: z.int().min(1).max(5),
+  comment: z.string(),
+  status: z.enum(ReviewStatus),
+  moderated_by: id.nullable(),
+  moderation_note: z.string().nullable(),
+  moderated_at: timestamp.nullable(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  user: z.object({ id, username: z.string().nullable() }),
+});
+
+export const Promotion = z.object({
+  id,
+  code: z.string(),
+  description: z.string().nullable(),
+  type: z.enum(DiscountType),
+  value: decimal(),
+  min_order_amount: decimal().nullable(),
+  starts_at: timestamp.nullable(),
+  ends_at: timestamp.nullable(),
+  usage_limit: z.int().nullable(),
+  per_user_limit: z.int().nullable(),
+  used_count: z.int(),
+  active: z.boolean(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  genres: z.array(z.object({ id, name: z.string() })),
+  books: z.array(z.object({ id, title: z.string() })),
+});
+
+export const StockMovement = z.object({
+  id,
+  book_id: id,
+  type: z.enum(StockMovementType),
+  quantity: z.int().meta({ description: 'Positif = stok masuk, negatif = stok keluar' }),
+  balance_after: z.int(),
+  reason: z.string().nullable(),
+  actor_id: id.nullable(),
+  order_id: id.nullable(),
+  created_at: timestamp,
+});
+
+const WishlistBook = z.object({
+  id,
+  title: z.string(),
+  price: decimal(),
+  stock_quantity: z.int(),
+  deleted_at: timestamp.nullable(),
+  author: z.object({ id, name: z.string() }),
+});
+
+export const WishlistItem = z.object({
+  id,
+  user_id: id,
+  book_id: id,
+  created_at: timestamp,
+  book: WishlistBook,
+  in_stock: z.boolean().optional().meta({ description: 'Hanya di GET /wishlist' }),
+  notify_when_available: z.boolean().optional().meta({ description: 'Hanya di GET /wishlist' }),
+});
+
+export const StockSubscription = z.object({ id, user_id: id, book_id: id, created_at: timestamp, book: WishlistBook });
+
+export const Notification = z.object({
+  id,
+  user_id: id,
+  type: z.enum(NotificationType),
+  title: z.string(),
+  body: z.string(),
+  data: z.record(z.string(), z.unknown()).nullable(),
+  read_at: timestamp.nullable(),
+  created_at: timestamp,
+});
+
+export const AuditLog = z.object({
+  id,
+  actor_id: id.nullable(),
+  action: z.enum(AuditAction),
+  entity: z.string(),
+  entity_id: z.string(),
+  before: z.unknown().nullable(),
+  after: z.unknown().nullable(),
+  changed_fields: z.array(z.string()),
+  ip: z.string().nullable(),
+  request_id: z.string().nullable(),
+  created_at: timestamp,
+  actor: UserRef.nullable(),
+});
+
+export const ImportReport = z.object({
+  dry_run: z.boolean(),
+  mode: z.enum(['upsert', 'create']),
+  summary: z.object({ total: z.int(), created: z.int(), updated: z.int(), rejected: z.int() }),
+  genres_created: z.array(z.string()),
+  authors_created: z.array(z.string()),
+  publishers_created: z.array(z.string()),
+  rows: z.array(z.object({
+    row: z.int(),
+    status: z.enum(['created', 'updated', 'rejected']),
+    title: z.string().optional(),
+    id: id.optional(),
+    errors: z.array(z.object({ field: z.string(), message: z.string() })).optional(),
+  })),
+});
+
+// Baris report (sales, top-books, ...); kolomnya berbeda per report
+export const ReportRows = z.looseObject({ items: z.array(z.record(z.string(), z.unknown())) });
+
+export const Deleted = z.object({ id });
+
+// Didaftarkan sebagai components.schemas; sisanya ditulis inline di tiap operasi
+export const components = {
+  ApiError, Pagination, ApiMeta, Genre, Author, Publisher, Book, Order, Tokens, Profile, User, AdminUser, Cart, Review,
+  Promotion, StockMovement, WishlistItem, StockSubscription, Notification, AuditLog, ImportReport,
+};
@@ -0,0 +1,16 @@
+import { Request, Response, NextFunction } from 'express';
+import { flushAuditLogs } from '../prisma/client';
+import { getRequestContext } from '../utils/request-context';
+
+// Tulis audit log yang dikumpulkan selama request, hanya jika request sukses (semua transaksi sudah commit).
+// Dipasang setelah middleware requestId.
+export function auditTrail(_req: Request, res: Response, next: NextFunction) {
+  const ctx = getRequestContext();
+  if (ctx) {
+    res.on('finish', () => {
+      if (res.statusCode >= 400 || ctx.audit.length === 0) return;
+      flushAuditLogs(ctx).catch((err) => console.error(`[${ctx.requestId}] audit log failed`, err));
+    });
+  }
+  next();
+}
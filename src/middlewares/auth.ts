@@ -1,12 +1,69 @@
 import { Request, Response, NextFunction } from 'express';
+import { Role } from '@prisma/client';
 import jwt from 'jsonwebtoken';
-import { fail } from '../utils/response';
-export function authGuard(req: Request, res: Response, next: NextFunction) {
+import { prisma } from '../prisma/client';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors';
+import { getRequestContext } from '../utils/request-context';
+import { accountDisabled } from '../services/auth.service';
+
+export type AuthUser = { id: string; email: string; role: Role };
+export interface AuthRequest extends Request {
+  user: AuthUser;
+}
+
+export async function authGuard(req: Request, _res: Response, next: NextFunction) {
   const hdr = req.headers.authorization;
-  if (!hdr?.startsWith('Bearer ')) return res.status(401).json(fail('Authentication required. Please login first.'));
+  if (!hdr?.startsWith('Bearer ')) throw new UnauthorizedError();
+  let payload: jwt.JwtPayload;
   try {
     const token = hdr.split(' ')[1];
-    (req as any).user = jwt.verify(token, process.env.JWT_SECRET!);
+    payload = jwt.verify(token, process.env.JWT_SECRET!) as jwt.JwtPayload;
+  } catch { throw new UnauthorizedError('Invalid token', { code: 'INVALID_TOKEN' }); }
+
+  // Token yang terbit sebelum logout-all / ganti password tidak berlaku lagi
+  const user = await prisma.users.findUnique({
+    where: { id: payload.id },
+    select: { id: true, email: true, role: true, credentials_changed_at: true, disabled_at: true, deleted_at: true },
+  });
+  if (!user || user.deleted_at) throw new UnauthorizedError('Invalid token', { code: 'INVALID_TOKEN' });
+  // Akun yang dinonaktifkan admin langsung ditolak, tanpa menunggu access token kedaluwarsa
+  if (user.disabled_at) throw accountDisabled();
+  if (user.credentials_changed_at && Math.floor(user.credentials_changed_at.getTime() / 1000) > (payload.iat ?? 0)) {
+    throw new UnauthorizedError('Token has been revoked. Please login again.', { code: 'TOKEN_REVOKED' });
+  }
+
+  // Role dibaca dari database supaya perubahan role langsung berlaku
+  (req as AuthRequest).user = { id: user.id, email: user.email, role: user.role };
+  // Actor untuk audit log
+  const ctx = getRequestContext();
+  if (ctx) ctx.actorId = user.id;
+  next();
+}
+
+// Dipasang setelah authGuard: hanya role yang disebut yang boleh lanjut (roles ikut ditempel untuk dokumentasi OpenAPI)
+export function requireRole(...roles: Role[]) {
+  const middleware = (req: Request, _res: Response, next: NextFunction) => {
+    const user = (req as AuthRequest).user;
+    if (!user) throw new UnauthorizedError();
+    if (!roles.includes(user.role)) throw new ForbiddenError();
     next();
-  } catch { return res.status(401).json(fail('Invalid token')); }
+  };
+  return Object.assign(middleware, { roles });
+}
+
+// Opsional lewat REQUIRE_VERIFIED_EMAIL=true: hanya user dengan email terverifikasi yang boleh lanjut
+export async function requireVerifiedEmail(req: Request, _res: Response, next: NextFunction) {
+  if (process.env.REQUIRE_VERIFIED_EMAIL !== 'true') return next();
+  const user = await prisma.users.findUnique({ where: { id: (req as AuthRequest).user.id }, select: { email_verified_at: true } });
+  if (!user?.email_verified_at) throw new ForbiddenError('Please verify your email before placing an order', { code: 'EMAIL_NOT_VERIFIED' });
+  next();
+}
+
+// include_deleted / only_deleted pada endpoint list hanya untuk admin; dipasang setelah validate(...)
+export function adminForDeleted(req: Request, _res: Response, next: NextFunction) {
+  const { deleted } = req.query as { deleted?: string };
+  if (deleted && (req as AuthRequest).user?.role !== 'admin') {
+    throw new ForbiddenError('Only admins can list deleted records');
+  }
+  next();
 }
@@ -1,5 +1,61 @@
 import { NextFunction, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { fail } from '../utils/response';
-export function errorHandler(err: any, _req: Request, res: Response, _next: NextFunction) {
-  res.status(err.status ?? 500).json(fail(err.message ?? 'Internal Server Error'));
+import { AppError, TooManyRequestsError, ValidationError } from '../utils/errors';
+
+type Mapped = { status: number; code: string; message: string; details?: unknown };
+
+// Partial unique index dari prisma/sql/unique_live_names.sql; dua request paralel bisa sama-sama lolos cek duplikat
+// di aplikasi, yang kalah mendapat error yang sama dengan cek aplikasi
+const liveDuplicates = [
+  { model: 'books', field: 'title', index: 'books_title_live_key', code: 'DUPLICATE_TITLE', message: 'Book with this title already exists' },
+  { model: 'genres', field: 'name', index: 'genres_name_live_key', code: 'DUPLICATE_GENRE', message: 'Genre name already exists' },
+];
+
+function mapUniqueError(err: Prisma.PrismaClientKnownRequestError): Mapped {
+  // target berisi nama kolom atau nama indeks, tergantung bagaimana Postgres melaporkannya
+  const target = [err.meta?.target].flat();
+  const duplicate = liveDuplicates.find((d) => target.includes(d.index) || (err.meta?.modelName === d.model && target.includes(d.field)));
+  if (duplicate) return { status: 409, code: duplicate.code, message: duplicate.message };
+  return { status: 409, code: 'UNIQUE_CONSTRAINT', message: 'Resource already exists', details: { fields: err.meta?.target } };
+}
+
+// Error Prisma yang sudah diketahui dipetakan ke status HTTP yang sesuai
+function mapPrismaError(err: Prisma.PrismaClientKnownRequestError): Mapped | undefined {
+  switch (err.code) {
+    case 'P2002':
+      return mapUniqueError(err);
+    case 'P2003':
+      return { status: 409, code: 'FOREIGN_KEY_CONSTRAINT', message: 'Related resource is missing or still in use', details: { field: err.meta?.field_name } };
+    case 'P2025':
+      return { status: 404, code: 'NOT_FOUND', message: 'Resource not found' };
+    // Deadlock / write conflict yang tetap gagal setelah retryTransaction
+    case 'P2034':
+      return { status: 409, code: 'CONCURRENT_UPDATE', message: 'Request conflicted with another request, please retry' };
+  }
+}
+
+function mapError(err: any): Mapped {
+  if (err instanceof AppError) return { status: err.status, code: err.code, message: err.message, details: err.details };
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    const mapped = mapPrismaError(err);
+    if (mapped) return mapped;
+  }
+  // JSON body rusak dari express.json()
+  if (err?.type === 'entity.parse.failed') return { status: 400, code: 'INVALID_JSON', message: 'Malformed JSON body' };
+  if (err?.type === 'entity.too.large') return { status: 413, code: 'PAYLOAD_TOO_LARGE', message: 'Request body is too large' };
+  return { status: 500, code: 'INTERNAL_ERROR', message: 'Internal Server Error' };
+}
+
+export function errorHandler(err: any, req: Request, res: Response, next: NextFunction) {
+  // Respons streaming (misal export) yang sudah terkirim sebagian: serahkan ke Express untuk menutup koneksi
+  if (res.headersSent) return next(err);
+  const { status, code, message, details } = mapError(err);
+  if (status >= 500) console.error(`[${req.id}]`, err);
+  if (err instanceof TooManyRequestsError) res.set('Retry-After', String(err.retryAfter));
+  res.status(status).json(fail(message, code, {
+    request_id: req.id,
+    details,
+    errors: err instanceof ValidationError ? err.errors : undefined,
+  }));
 }
@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express';
+import * as svc from '../services/idempotency.service';
+import { AuthRequest } from './auth';
+import { BadRequestError } from '../utils/errors';
+import { getRequestContext } from '../utils/request-context';
+
+// Karakter ASCII yang terlihat (tanpa spasi), maksimal 255; UUID v4 dari client sudah cukup
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+// Header Idempotency-Key (opsional) untuk endpoint POST yang tidak boleh dieksekusi dua kali.
+// Dipasang setelah authGuard (key dipisah per user) dan validate (fingerprint dari body yang sudah divalidasi).
+// Respons sukses disimpan sebelum dikirim, jadi retry setelah timeout selalu mendapat respons yang sama.
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get('Idempotency-Key');
+  if (key === undefined) return next();
+  if (!KEY_PATTERN.test(key)) {
+    throw new BadRequestError('Idempotency-Key must be 1-255 visible ASCII characters', { code: 'INVALID_IDEMPOTENCY_KEY' });
+  }
+
+  const identity = {
+    owner: (req as Partial<AuthRequest>).user?.id ?? '',
+    scope: `${req.method} ${req.baseUrl}${req.route?.path ?? ''}`,
+    key,
+  };
+  const claim = await svc.claim(identity, svc.fingerprint(req.method, req.originalUrl, req.body));
+
+  if (claim.replay) {
+    res.set('Idempotent-Replayed', 'true');
+    return res.status(claim.status).json(claim.body);
+  }
+
+  // Error dari handler juga lewat res.json (errorHandler), key dilepas supaya bisa dicoba lagi
+  const send = res.json.bind(res);
+  res.json = (body: unknown) => {
+    const stored = res.statusCode < 400 ? svc.complete(claim.id, res.statusCode, body) : svc.release(claim.id);
+    stored
+      .catch((err) => console.error(`[${getRequestContext()?.requestId}] idempotency key update failed`, err))
+      .finally(() => send(body));
+    return res;
+  };
+  next();
+}
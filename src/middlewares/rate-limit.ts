@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRateLimitStore } from '../services/rate-limit.service';
+import { TooManyRequestsError } from '../utils/errors';
+import { normalizeEmail } from '../utils/email';
+
+const MINUTE = 60 * 1000;
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export type RateLimitPolicy = {
+  name: string;
+  limit: number;
+  windowMs: number;
+  // undefined = request ini tidak dihitung oleh policy (misal GET pada policy write, body tanpa email)
+  key: (req: Request) => string | undefined;
+};
+
+// Di belakang reverse proxy, req.ip baru benar jika TRUST_PROXY diisi (lihat app.ts)
+const byIp = (req: Request) => req.ip ?? req.socket.remoteAddress;
+// Akun = email di body, jadi percobaan ke satu akun dari banyak IP tetap terhitung bersama
+const byAccount = (req: Request) =>
+  typeof req.body?.email === 'string' ? normalizeEmail(req.body.email) : undefined;
+
+export const policies = {
+  loginByIp: { name: 'login-ip', limit: 20, windowMs: 15 * MINUTE, key: byIp },
+  loginByAccount: { name: 'login-account', limit: 10, windowMs: 15 * MINUTE, key: byAccount },
+  register: { name: 'register-ip', limit: 10, windowMs: 60 * MINUTE, key: byIp },
+  // forgot-password, reset-password, verify-email, resend-verification, confirm-email-change
+  authEmailByIp: { name: 'auth-email-ip', limit: 10, windowMs: 15 * MINUTE, key: byIp },
+  authEmailByAccount: { name: 'auth-email-account', limit: 3, windowMs: 15 * MINUTE, key: byAccount },
+  // Semua POST/PUT/PATCH/DELETE, dipasang global di app.ts
+  write: { name: 'write-ip', limit: 120, windowMs: MINUTE, key: (req) => (SAFE_METHODS.has(req.method) ? undefined : byIp(req)) },
+} satisfies Record<string, RateLimitPolicy>;
+
+const enabled = () => process.env.RATE_LIMIT_ENABLED !== 'false';
+
+// Semua policy dihitung; header RateLimit-* mengikuti policy yang sisa kuotanya paling sedikit.
+// Dipasang setelah validate(...) jika policy memakai body (byAccount).
+export function rateLimit(...list: RateLimitPolicy[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!enabled()) return next();
+    const now = Date.now();
+
+    const hits = await Promise.all(
+      list.map(async (policy) => {
+        const key = policy.key(req);
+        if (key === undefined) return undefined;
+        const hit = await getRateLimitStore().hit(`${policy.name}:${key}`, policy.windowMs);
+        return { policy, ...hit, remaining: Math.max(0, policy.limit - hit.count), reset: Math.max(1, Math.ceil((hit.resetAt - now) / 1000)) };
+      })
+    );
+    const applied = hits.filter((h) => h !== undefined);
+    if (applied.length === 0) return next();
+
+    const left = (h: (typeof applied)[number]) => h.policy.limit - h.count;
+    const tightest = applied.reduce((a, b) => (left(b) < left(a) || (left(b) === left(a) && b.reset > a.reset) ? b : a));
+    res.set({
+      'RateLimit-Limit': String(tightest.policy.limit),
+      'RateLimit-Remaining': String(tightest.remaining),
+      'RateLimit-Reset': String(tightest.reset),
+      'RateLimit-Policy': `${tightest.policy.limit};w=${tightest.policy.windowMs / 1000}`,
+    });
+
+    const exceeded = applied.filter((h) => h.count > h.policy.limit);
+    if (exceeded.length) {
+      const retryAfter = Math.max(...exceeded.map((h) => h.reset));
+      throw new TooManyRequestsError(retryAfter, 'Too many requests, please try again later', {
+        code: 'RATE_LIMITED',
+        details: { policies: exceeded.map((h) => h.policy.name), retry_after: retryAfter },
+      });
+    }
+    next();
+  };
+}
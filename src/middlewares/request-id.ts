@@ -0,0 +1,13 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { runWithRequestContext } from '../utils/request-context';
+
+// Pakai X-Request-Id dari client/proxy jika ada, supaya log dan respons error bisa dicocokkan.
+// Sisa request dijalankan di dalam RequestContext (request id, IP, actor) untuk audit log.
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get('x-request-id');
+  const id = incoming && /^[\w.-]{1,128}$/.test(incoming) ? incoming : crypto.randomUUID();
+  req.id = id;
+  res.setHeader('X-Request-Id', id);
+  runWithRequestContext({ requestId: id, ip: req.ip, audit: [] }, next);
+}
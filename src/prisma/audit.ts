@@ -0,0 +1,135 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuditAction, Prisma, PrismaClient } from '@prisma/client';
+import { getRequestContext, RequestContext } from '../utils/request-context';
+
+// Model yang setiap perubahannya dicatat di audit_logs
+const AUDITED_MODELS = new Set<string>(['books', 'genres', 'authors', 'publishers', 'users', 'orders', 'promotions', 'reviews']);
+const WRITE_OPERATIONS = new Set(['create', 'update', 'upsert', 'delete', 'updateMany', 'deleteMany']);
+
+// Field yang tidak boleh ikut tersimpan di snapshot
+const REDACTED_FIELDS = new Set(['password']);
+
+// Field turunan yang dihitung ulang otomatis; perubahan yang hanya menyentuh field ini tidak dicatat
+const DERIVED_FIELDS = new Set(['updated_at', 'version', 'average_rating', 'review_count']);
+
+type Row = Record<string, unknown> & { id: string };
+export type Pending = RequestContext['audit'][number];
+type Delegate = {
+  findUnique(args: unknown): Promise<Row | null>;
+  findMany(args: unknown): Promise<Row[]>;
+};
+
+// Transaksi interaktif yang sedang berjalan (dibuka retryTransaction di prisma/client.ts). Snapshot dibaca lewat
+// client transaksi itu, bukan base: tidak memakai koneksi pool kedua dan melihat perubahan transaksi sendiri.
+// Entri di luar request ditampung di pending dan baru ditulis setelah commit.
+export type AuditScope = { client: unknown; pending: Pending[] };
+const scopes = new AsyncLocalStorage<AuditScope>();
+export const runInAuditScope = <T>(scope: AuditScope, fn: () => T) => scopes.run(scope, fn);
+
+// Decimal/Date dinormalisasi ke bentuk JSON, field rahasia dibuang
+function snapshot(row: Row | null) {
+  if (!row) return null;
+  const json = JSON.parse(JSON.stringify(row)) as Record<string, unknown>;
+  for (const field of REDACTED_FIELDS) delete json[field];
+  return json;
+}
+
+function changedFields(before: Record<string, unknown> | null, after: Record<string, unknown> | null) {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const field of DERIVED_FIELDS) keys.delete(field);
+  return [...keys].filter((key) => JSON.stringify(before?.[key]) !== JSON.stringify(after?.[key]));
+}
+
+function actionOf(first: Pending, before: Record<string, unknown> | null, after: Record<string, unknown> | null): AuditAction {
+  if (first.operation === 'create' || !before) return 'create';
+  if (!after) return 'delete';
+  if (!before.deleted_at && after.deleted_at) return 'soft_delete';
+  if (before.deleted_at && !after.deleted_at) return 'restore';
+  return 'update';
+}
+
+// Beberapa operasi pada entity yang sama dalam satu request digabung menjadi satu entri:
+// before dari sentuhan pertama, after dibaca ulang dari database setelah semua transaksi commit
+export async function writeAuditLogs(base: PrismaClient, pending: Pending[], meta: Partial<Omit<RequestContext, 'audit'>>) {
+  const grouped = new Map<string, Pending>();
+  for (const entry of pending) {
+    const key = `${entry.model}:${entry.id}`;
+    if (!grouped.has(key)) grouped.set(key, entry);
+  }
+
+  const data: Prisma.audit_logsCreateManyInput[] = [];
+  for (const entry of grouped.values()) {
+    const delegate = (base as unknown as Record<string, Delegate>)[entry.model];
+    const before = entry.operation === 'create' ? null : snapshot(entry.before as Row | null);
+    const after = snapshot(await delegate.findUnique({ where: { id: entry.id } }));
+
+    // Dibuat lalu dihapus di request yang sama, atau tidak ada yang berubah
+    if (!before && !after) continue;
+    const changed = changedFields(before, after);
+    if (changed.length === 0) continue;
+
+    data.push({
+      actor_id: meta.actorId,
+      action: actionOf(entry, before, after),
+      entity: entry.model,
+      entity_id: entry.id,
+      before: (before ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+      after: (after ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+      changed_fields: changed,
+      ip: meta.ip,
+      request_id: meta.requestId,
+    });
+  }
+
+  if (data.length) await base.audit_logs.createMany({ data });
+}
+
+// Query extension: catat snapshot "before" dan id setiap baris yang disentuh operasi tulis.
+// Di dalam request, entri ditahan di RequestContext dan baru ditulis jika respons sukses (lihat middlewares/audit.ts),
+// sehingga transaksi yang di-rollback tidak meninggalkan audit log palsu. Di luar request (worker, script) entri
+// di dalam transaksi ditulis setelah commit oleh retryTransaction, di luar transaksi langsung ditulis.
+export function auditExtension(base: PrismaClient) {
+  return Prisma.defineExtension({
+    name: 'audit-log',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          if (!AUDITED_MODELS.has(model) || !WRITE_OPERATIONS.has(operation)) return query(args);
+
+          const scope = scopes.getStore();
+          const delegate = ((scope?.client ?? base) as Record<string, Delegate>)[model];
+          const where = (args as { where?: unknown }).where;
+          const many = operation === 'updateMany' || operation === 'deleteMany';
+
+          let before: Row[] = [];
+          if (many) before = await delegate.findMany({ where });
+          else if (operation !== 'create') {
+            const row = await delegate.findUnique({ where });
+            if (row) before = [row];
+          }
+
+          const result = await query(args);
+
+          const pending: Pending[] = before.map((row) => ({
+            model,
+            id: row.id,
+            operation: operation.startsWith('delete') ? 'delete' : 'update',
+            before: row,
+          }));
+          const createdId = (result as { id?: unknown } | null)?.id;
+          if ((operation === 'create' || (operation === 'upsert' && before.length === 0)) && typeof createdId === 'string') {
+            pending.push({ model, id: createdId, operation: 'create', before: null });
+          }
+
+          const ctx = getRequestContext();
+          if (ctx) ctx.audit.push(...pending);
+          else if (scope) scope.pending.push(...pending);
+          else if (pending.length) {
+            await writeAuditLogs(base, pending, {}).catch((err) => console.error('[audit]', err));
+          }
+          return result;
+        },
+      },
+    },
+  });
+}
@@ -1,2 +1,35 @@
-import { PrismaClient } from '@prisma/client';
-export const prisma = new PrismaClient();
+import { Prisma, PrismaClient } from '@prisma/client';
+import { auditExtension, Pending, runInAuditScope, writeAuditLogs } from './audit';
+import { versionExtension } from './version';
+import { RequestContext } from '../utils/request-context';
+
+// Client dasar hanya dipakai extension audit (membaca snapshot dan menulis audit_logs tanpa tercatat ulang)
+const base = new PrismaClient();
+
+export const prisma = base.$extends(auditExtension(base)).$extends(versionExtension);
+
+export const flushAuditLogs = (ctx: RequestContext) => writeAuditLogs(base, ctx.audit, ctx);
+
+// Tipe client di dalam prisma.$transaction(async (tx) => ...); dipakai fungsi yang bisa jalan di dalam maupun di luar transaksi
+export type Db = Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+const TX_MAX_ATTEMPTS = 3;
+
+// $transaction yang diulang jika Postgres membatalkannya karena deadlock / serialization failure (P2034).
+// Semua transaksi interaktif dibuka lewat sini, supaya snapshot audit dibaca di dalam transaksi yang sama
+// dan audit log di luar request (worker, script) baru ditulis setelah commit.
+export async function retryTransaction<T>(fn: (tx: Db) => Promise<T>, options?: { timeout?: number }): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const pending: Pending[] = [];
+    try {
+      const result = await prisma.$transaction((tx) => runInAuditScope({ client: tx, pending }, () => fn(tx)), options);
+      if (pending.length) await writeAuditLogs(base, pending, {}).catch((err) => console.error('[audit]', err));
+      return result;
+    } catch (err) {
+      const retryable = err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2034';
+      if (!retryable || attempt >= TX_MAX_ATTEMPTS) throw err;
+      // Jeda acak singkat supaya transaksi yang bentrok tidak langsung bertabrakan lagi
+      await new Promise((resolve) => setTimeout(resolve, 20 * attempt + Math.random() * 30));
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { Prisma } from '@prisma/client';
+
+// Model yang punya kolom version (optimistic concurrency / ETag)
+const VERSIONED_MODELS = new Set<string>(['books', 'genres', 'authors', 'publishers']);
+const UPDATE_OPERATIONS = new Set(['update', 'updateMany', 'upsert']);
+
+// Query extension: setiap update pada model bervesi menaikkan version, dari mana pun asalnya
+// (PATCH, ledger stok, rating review, soft delete), supaya ETag selalu berubah bersama isi baris.
+export const versionExtension = Prisma.defineExtension({
+  name: 'row-version',
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        if (!VERSIONED_MODELS.has(model) || !UPDATE_OPERATIONS.has(operation)) return query(args);
+
+        const bump = { version: { increment: 1 } };
+        if (operation === 'upsert') {
+          const upsert = args as { update: Record<string, unknown> };
+          return query({ ...upsert, update: { ...upsert.update, ...bump } } as typeof args);
+        }
+        const update = args as { data: Record<string, unknown> };
+        return query({ ...update, data: { ...update.data, ...bump } } as typeof args);
+      },
+    },
+  },
+});
@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import * as c from '../controllers/audit.controller';
+import { authGuard, requireRole } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+const r = Router();
+r.use(authGuard, requireRole('admin'));
+r.get('/', validate({ query: c.AuditListQuery }), c.list);
+export default r;
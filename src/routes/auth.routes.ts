@@ -1,8 +1,23 @@
 import { Router } from 'express';
 import * as c from '../controllers/auth.controller';
 import { authGuard } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import { idempotent } from '../middlewares/idempotency';
+import { policies, rateLimit } from '../middlewares/rate-limit';
 const r = Router();
-r.post('/register', c.register);
-r.post('/login', c.login);
+r.post('/register', validate({ body: c.RegisterDto }), rateLimit(policies.register), idempotent, c.register);
+r.post('/login', validate({ body: c.LoginDto }), rateLimit(policies.loginByIp, policies.loginByAccount), c.login);
+r.post('/refresh', validate({ body: c.RefreshDto }), c.refresh);
+r.post('/logout', validate({ body: c.RefreshDto }), c.logout);
+r.post('/logout-all', authGuard, c.logoutAll);
+r.post('/forgot-password', validate({ body: c.EmailDto }), rateLimit(policies.authEmailByIp, policies.authEmailByAccount), c.forgotPassword);
+r.post('/reset-password', validate({ body: c.ResetPasswordDto }), rateLimit(policies.authEmailByIp), c.resetPassword);
+r.post('/verify-email', validate({ body: c.TokenDto }), rateLimit(policies.authEmailByIp), c.verifyEmail);
+r.post('/resend-verification', validate({ body: c.EmailDto }), rateLimit(policies.authEmailByIp, policies.authEmailByAccount), c.resendVerification);
 r.get('/me', authGuard, c.me);
+r.patch('/me', authGuard, validate({ body: c.UpdateProfileDto }), c.updateMe);
+r.delete('/me', authGuard, validate({ body: c.PasswordDto }), c.deleteMe);
+r.post('/change-password', authGuard, validate({ body: c.ChangePasswordDto }), c.changePassword);
+r.post('/change-email', authGuard, validate({ body: c.ChangeEmailDto }), c.changeEmail);
+r.post('/confirm-email-change', validate({ body: c.TokenDto }), rateLimit(policies.authEmailByIp), c.confirmEmailChange);
 export default r;
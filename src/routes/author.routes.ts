@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import * as c from '../controllers/author.controller';
+import { BookListQuery, getBooksByAuthor } from '../controllers/book.controller';
+import { adminForDeleted, authGuard, requireRole } from '../middlewares/auth';
+import { idParam, validate } from '../middlewares/validate';
+const r = Router();
+const params = idParam('id');
+r.post('/', authGuard, requireRole('admin'), validate({ body: c.CreateDto }), c.create);
+r.get('/', authGuard, validate({ query: c.ListQueryDto }), c.list);
+r.get('/:id', authGuard, validate({ params }), c.detail);
+r.get('/:id/statistics', authGuard, validate({ params }), c.statistics);
+r.get('/:id/books', authGuard, validate({ params, query: BookListQuery }), adminForDeleted, getBooksByAuthor);
+r.patch('/:id', authGuard, requireRole('admin'), validate({ params, body: c.UpdateDto }), c.update);
+r.delete('/:id', authGuard, requireRole('admin'), validate({ params, query: c.RemoveQuery }), c.remove);
+export default r;
@@ -2,21 +2,51 @@ import { Router } from 'express';
 import {
   createBook,
   getBooks,
+  searchBooks,
   getBookById,
   getBooksByGenre,
   updateBook,
-  deleteBook
+  deleteBook,
+  importBooks,
+  exportBooks,
+  restoreBook,
+  purgeBook,
+  CreateBookDto,
+  UpdateBookDto,
+  BookListQuery,
+  BookSearchQuery,
+  BookImportQuery,
+  BookExportQuery
 } from '../controllers/book.controller';
-import { authGuard } from '../middlewares/auth';
+import * as inventory from '../controllers/inventory.controller';
+import * as reviews from '../controllers/review.controller';
+import * as wishlist from '../controllers/wishlist.controller';
+import { adminForDeleted, authGuard, requireRole } from '../middlewares/auth';
+import { idParam, validate } from '../middlewares/validate';
+import { idempotent } from '../middlewares/idempotency';
 
 const router = Router();
+const bookParams = idParam('book_id');
 
-// Semua endpoint wajib authenticate
-router.post('/', authGuard, createBook);
-router.get('/', authGuard, getBooks);
-router.get('/:book_id', authGuard, getBookById);
-router.get('/genre/:genre_id', authGuard, getBooksByGenre);
-router.patch('/:book_id', authGuard, updateBook);
-router.delete('/:book_id', authGuard, deleteBook);
+// Semua endpoint wajib authenticate, tulis katalog hanya untuk admin
+router.post('/', authGuard, requireRole('admin'), validate({ body: CreateBookDto }), idempotent, createBook);
+router.get('/', authGuard, validate({ query: BookListQuery }), adminForDeleted, getBooks);
+router.post('/import', authGuard, requireRole('admin'), validate({ query: BookImportQuery }), importBooks);
+router.get('/export', authGuard, requireRole('admin'), validate({ query: BookExportQuery }), exportBooks);
+router.get('/low-stock', authGuard, requireRole('admin'), validate({ query: inventory.LowStockQuery }), inventory.lowStock);
+router.get('/search', authGuard, validate({ query: BookSearchQuery }), searchBooks);
+router.get('/:book_id', authGuard, validate({ params: bookParams }), getBookById);
+router.post('/:book_id/restock', authGuard, requireRole('admin'), validate({ params: bookParams, body: inventory.RestockDto }), inventory.restock);
+router.post('/:book_id/adjust', authGuard, requireRole('admin'), validate({ params: bookParams, body: inventory.AdjustDto }), inventory.adjust);
+router.get('/:book_id/stock-history', authGuard, requireRole('admin'), validate({ params: bookParams, query: inventory.HistoryQuery }), inventory.history);
+router.post('/:book_id/reviews', authGuard, validate({ params: bookParams, body: reviews.CreateReviewDto }), reviews.create);
+router.get('/:book_id/reviews', authGuard, validate({ params: bookParams, query: reviews.BookReviewListQuery }), reviews.listForBook);
+router.post('/:book_id/notify-me', authGuard, validate({ params: bookParams }), wishlist.subscribe);
+router.delete('/:book_id/notify-me', authGuard, validate({ params: bookParams }), wishlist.unsubscribe);
+router.get('/genre/:genre_id', authGuard, validate({ params: idParam('genre_id'), query: BookListQuery }), adminForDeleted, getBooksByGenre);
+router.patch('/:book_id', authGuard, requireRole('admin'), validate({ params: bookParams, body: UpdateBookDto }), updateBook);
+router.delete('/:book_id', authGuard, requireRole('admin'), validate({ params: bookParams }), deleteBook);
+router.post('/:book_id/restore', authGuard, requireRole('admin'), validate({ params: bookParams }), restoreBook);
+router.delete('/:book_id/purge', authGuard, requireRole('admin'), validate({ params: bookParams }), purgeBook);
 
 export default router;
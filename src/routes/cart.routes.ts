@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import * as c from '../controllers/cart.controller';
+import { authGuard, requireVerifiedEmail } from '../middlewares/auth';
+import { idParam, validate } from '../middlewares/validate';
+import { idempotent } from '../middlewares/idempotency';
+const r = Router();
+const params = idParam('book_id');
+r.use(authGuard);
+r.get('/', validate({ query: c.CartQuery }), c.get);
+r.post('/items', validate({ body: c.AddItemDto }), c.addItem);
+r.patch('/items/:book_id', validate({ params, body: c.UpdateItemDto }), c.updateItem);
+r.delete('/items/:book_id', validate({ params }), c.removeItem);
+r.post('/reservation', requireVerifiedEmail, c.reserve);
+r.delete('/reservation', c.releaseReservation);
+r.post('/checkout', requireVerifiedEmail, validate({ body: c.CheckoutDto }), idempotent, c.checkout);
+export default r;
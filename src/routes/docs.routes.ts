@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { buildOpenApi } from '../docs/openapi';
+
+// Swagger UI dari CDN, membaca /openapi.json dari server yang sama
+const DOCS_PAGE = `<!doctype html>
+<html lang="id">
+<head>
+  <meta charset="utf-8">
+  <title>Books API Docs</title>
+  <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css">
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+  <script>SwaggerUIBundle({ url: 'openapi.json', dom_id: '#swagger-ui', persistAuthorization: true });</script>
+</body>
+</html>`;
+
+// Route tidak berubah selama proses berjalan, jadi dokumen cukup disusun sekali
+let document: ReturnType<typeof buildOpenApi> | undefined;
+
+const r = Router();
+r.get('/openapi.json', (_req, res) => res.json((document ??= buildOpenApi())));
+r.get('/docs', (_req, res) => res.type('html').send(DOCS_PAGE));
+export default r;
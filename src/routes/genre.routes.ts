@@ -1,10 +1,14 @@
 import { Router } from 'express';
 import * as c from '../controllers/genre.controller';
-import { authGuard } from '../middlewares/auth';
+import { adminForDeleted, authGuard, requireRole } from '../middlewares/auth';
+import { idParam, validate } from '../middlewares/validate';
 const r = Router();
-r.post('/', authGuard, c.create);
-r.get('/', authGuard, c.list);
-r.get('/:id', authGuard, c.detail);
-r.patch('/:id', authGuard, c.update);
-r.delete('/:id', authGuard, c.remove);
+const params = idParam('id');
+r.post('/', authGuard, requireRole('admin'), validate({ body: c.CreateDto }), c.create);
+r.get('/', authGuard, validate({ query: c.ListQueryDto }), adminForDeleted, c.list);
+r.get('/:id', authGuard, validate({ params }), c.detail);
+r.patch('/:id', authGuard, requireRole('admin'), validate({ params, body: c.UpdateDto }), c.update);
+r.delete('/:id', authGuard, requireRole('admin'), validate({ params, query: c.RemoveQuery }), c.remove);
+r.post('/:id/restore', authGuard, requireRole('admin'), validate({ params }), c.restore);
+r.delete('/:id/purge', authGuard, requireRole('admin'), validate({ params }), c.purge);
 export default r;
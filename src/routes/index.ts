@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import healthRoutes from './health.routes';
+import authRoutes from './auth.routes';
+import genreRoutes from './genre.routes';
+import authorRoutes from './author.routes';
+import publisherRoutes from './publisher.routes';
+import bookRoutes from './book.route';
+import transactionRoutes from './transaction.route';
+import userRoutes from './user.routes';
+import cartRoutes from './cart.routes';
+import auditRoutes from './audit.routes';
+import reportRoutes from './report.routes';
+import promotionRoutes from './promotion.routes';
+import reviewRoutes from './review.routes';
+import wishlistRoutes from './wishlist.routes';
+import notificationRoutes from './notification.routes';
+
+// Prefix -> router API. Dipasang oleh app.ts dan dibaca generator OpenAPI (src/docs/openapi.ts),
+// karena Express 5 tidak menyimpan path mount di router.
+export const routers: Record<string, Router> = {
+  '/health-check': healthRoutes,
+  '/auth': authRoutes,
+  '/genre': genreRoutes,
+  '/authors': authorRoutes,
+  '/publishers': publisherRoutes,
+  '/books': bookRoutes,
+  '/transactions': transactionRoutes,
+  '/users': userRoutes,
+  '/cart': cartRoutes,
+  '/audit-logs': auditRoutes,
+  '/reports': reportRoutes,
+  '/promotions': promotionRoutes,
+  '/reviews': reviewRoutes,
+  '/wishlist': wishlistRoutes,
+  '/notifications': notificationRoutes,
+};
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import * as c from '../controllers/notification.controller';
+import * as wishlist from '../controllers/wishlist.controller';
+import { authGuard } from '../middlewares/auth';
+import { idParam, validate } from '../middlewares/validate';
+const r = Router();
+r.use(authGuard);
+r.get('/', validate({ query: c.NotificationListQuery }), c.list);
+r.get('/subscriptions', wishlist.listSubscriptions);
+r.post('/read-all', c.readAll);
+r.patch('/:id', validate({ params: idParam('id'), body: c.ReadDto }), c.setRead);
+export default r;
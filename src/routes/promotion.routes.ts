@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import * as c from '../controllers/promotion.controller';
+import { authGuard, requireRole } from '../middlewares/auth';
+import { idParam, validate } from '../middlewares/validate';
+const r = Router();
+const params = idParam('id');
+r.use(authGuard, requireRole('admin'));
+r.post('/', validate({ body: c.CreateDto }), c.create);
+r.get('/', validate({ query: c.ListQueryDto }), c.list);
+r.get('/:id', validate({ params }), c.detail);
+r.patch('/:id', validate({ params, body: c.UpdateDto }), c.update);
+r.delete('/:id', validate({ params }), c.remove);
+export default r;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import * as c from '../controllers/report.controller';
+import { authGuard, requireRole } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+const r = Router();
+r.use(authGuard, requireRole('admin'));
+r.get('/sales', validate({ query: c.SalesQuery }), c.sales);
+r.get('/summary', validate({ query: c.RangeQuery }), c.summary);
+r.get('/top-books', validate({ query: c.TopBooksQuery }), c.topBooks);
+r.get('/top-authors', validate({ query: c.TopQuery }), c.topAuthors);
+// Alias lama sebelum writer menjadi tabel authors
+r.get('/top-writers', validate({ query: c.TopQuery }), c.topAuthors);
+r.get('/top-publishers', validate({ query: c.TopQuery }), c.topPublishers);
+r.get('/genres', validate({ query: c.GenreQuery }), c.genres);
+r.get('/customers', validate({ query: c.CustomerQuery }), c.customers);
+export default r;
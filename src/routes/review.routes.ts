@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import * as c from '../controllers/review.controller';
+import { authGuard, requireRole } from '../middlewares/auth';
+import { idParam, validate } from '../middlewares/validate';
+const r = Router();
+const params = idParam('id');
+r.use(authGuard);
+r.get('/', requireRole('admin'), validate({ query: c.ReviewListQuery }), c.list);
+r.patch('/:id', validate({ params, body: c.UpdateReviewDto }), c.update);
+r.delete('/:id', validate({ params }), c.remove);
+r.patch('/:id/moderation', requireRole('admin'), validate({ params, body: c.ModerateDto }), c.moderate);
+export default r;
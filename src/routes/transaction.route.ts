@@ -3,18 +3,32 @@ import {
   createTransaction,
   getAllTransactions,
   getTransactionDetail,
-  getTransactionStatistics
+  getTransactionStatistics,
+  cancelTransaction,
+  refundTransaction,
+  updateTransactionStatus,
+  CreateTransactionDto,
+  StatusDto,
+  NoteDto,
+  StatisticsQuery,
+  TransactionListQuery
 } from '../controllers/transaction.controller';
-import { authGuard } from '../middlewares/auth';
+import { authGuard, requireRole, requireVerifiedEmail } from '../middlewares/auth';
+import { idParam, validate } from '../middlewares/validate';
+import { idempotent } from '../middlewares/idempotency';
 
 const router = Router();
+const params = idParam('transaction_id');
 
 // All routes require authentication
 router.use(authGuard);
 
-router.post('/', createTransaction);
-router.get('/', getAllTransactions);
-router.get('/statistics', getTransactionStatistics);
-router.get('/:transaction_id', getTransactionDetail);
+router.post('/', requireVerifiedEmail, validate({ body: CreateTransactionDto }), idempotent, createTransaction);
+router.get('/', validate({ query: TransactionListQuery }), getAllTransactions);
+router.get('/statistics', requireRole('admin'), validate({ query: StatisticsQuery }), getTransactionStatistics);
+router.get('/:transaction_id', validate({ params }), getTransactionDetail);
+router.patch('/:transaction_id/status', requireRole('admin'), validate({ params, body: StatusDto }), updateTransactionStatus);
+router.post('/:transaction_id/cancel', validate({ params, body: NoteDto }), cancelTransaction);
+router.post('/:transaction_id/refund', requireRole('admin'), validate({ params, body: NoteDto }), refundTransaction);
 
 export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import * as c from '../controllers/user.controller';
+import { authGuard, requireRole } from '../middlewares/auth';
+import { idParam, validate } from '../middlewares/validate';
+const r = Router();
+r.use(authGuard, requireRole('admin'));
+r.get('/', validate({ query: c.UserListQuery }), c.list);
+r.patch('/:id/role', validate({ params: idParam('id'), body: c.RoleDto }), c.updateRole);
+r.post('/:id/disable', validate({ params: idParam('id'), body: c.DisableDto }), c.disable);
+r.post('/:id/enable', validate({ params: idParam('id') }), c.enable);
+export default r;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import * as c from '../controllers/wishlist.controller';
+import { authGuard } from '../middlewares/auth';
+import { idParam, validate } from '../middlewares/validate';
+const r = Router();
+r.use(authGuard);
+r.get('/', validate({ query: c.WishlistQuery }), c.list);
+r.post('/', validate({ body: c.AddWishlistDto }), c.add);
+r.delete('/:book_id', validate({ params: idParam('book_id') }), c.remove);
+export default r;
@@ -1,4 +1,22 @@
 import 'dotenv/config';
 import app from './app';
+import { purgeExpired } from './services/idempotency.service';
+import { sweepExpiredReservations } from './services/inventory.service';
+import { processOutbox } from './services/notification.service';
 const port = process.env.PORT || 3000;
 app.listen(port, () => console.log(`API running on :${port}`));
+
+// Idempotency key yang sudah lewat TTL dibersihkan setiap jam
+setInterval(() => {
+  purgeExpired().catch((err) => console.error('[idempotency] purge failed', err));
+}, 60 * 60 * 1000).unref();
+
+// Reservasi stok yang kedaluwarsa dikembalikan setiap menit
+setInterval(() => {
+  sweepExpiredReservations().catch((err) => console.error('[reservations] sweep failed', err));
+}, 60 * 1000).unref();
+
+// Worker outbox notifikasi (email back-in-stock)
+setInterval(() => {
+  processOutbox().catch((err) => console.error('[outbox] processing failed', err));
+}, Number(process.env.OUTBOX_INTERVAL_SECONDS ?? 10) * 1000).unref();
@@ -0,0 +1,21 @@
+import { prisma } from '../prisma/client';
+import { ListQuery, toFindArgs, toPage, toWhere } from '../utils/query';
+
+export async function list(query: ListQuery) {
+  // changed_field bukan kolom: dicocokkan ke array changed_fields
+  const { changed_field, ...filters } = query.filters;
+  const where = {
+    ...toWhere({ ...query, filters }),
+    ...(changed_field?.eq ? { changed_fields: { has: changed_field.eq as string } } : {}),
+  };
+
+  const [rows, total] = await Promise.all([
+    prisma.audit_logs.findMany({
+      where,
+      include: { actor: { select: { id: true, username: true, email: true } } },
+      ...toFindArgs(query),
+    }),
+    prisma.audit_logs.count({ where }),
+  ]);
+  return toPage(query, rows, total);
+}
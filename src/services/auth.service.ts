@@ -1,22 +1,317 @@
+import { AuthTokenPurpose } from '@prisma/client';
 import { prisma } from '../prisma/client';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { generateToken, hashToken } from '../utils/token';
+import { getMailer } from './mail.service';
+import { getRateLimitStore } from './rate-limit.service';
+import { releaseReservations, stockTransaction } from './inventory.service';
+import { BadRequestError, ConflictError, ForbiddenError, TooManyRequestsError, UnauthorizedError } from '../utils/errors';
 type Register = { username?: string; email: string; password: string };
 type Login = { email: string; password: string };
+type TokenUser = { id: string; email: string; role: string };
+
+const profile = { id: true, email: true, username: true, role: true, email_verified_at: true, pending_email: true } as const;
+
+const ACCESS_TOKEN_TTL = (process.env.ACCESS_TOKEN_TTL ?? '15m') as SignOptions['expiresIn'];
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS ?? 30);
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES ?? 60);
+const EMAIL_VERIFICATION_TTL_HOURS = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS ?? 24);
+const APP_URL = process.env.APP_URL ?? 'http://localhost:3000';
+const LOGIN_MAX_ATTEMPTS = Number(process.env.LOGIN_MAX_ATTEMPTS ?? 5);
+const LOGIN_LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES ?? 1);
+const LOGIN_LOCKOUT_MAX_MINUTES = Number(process.env.LOGIN_LOCKOUT_MAX_MINUTES ?? 24 * 60);
+const invalidRefresh = () => new UnauthorizedError('Invalid refresh token', { code: 'INVALID_REFRESH_TOKEN' });
+const invalidAuthToken = () => new BadRequestError('Invalid or expired token', { code: 'INVALID_TOKEN' });
+const invalidCredentials = () => new UnauthorizedError('Invalid credentials', { code: 'INVALID_CREDENTIALS' });
+const clearLockout = { failed_login_count: 0, lockout_count: 0, locked_until: null };
+const emailTaken = () => new ConflictError('Email already used', { code: 'EMAIL_TAKEN' });
+export const accountDisabled = () => new ForbiddenError('Account has been disabled', { code: 'ACCOUNT_DISABLED' });
+
+function accountLocked(lockedUntil: Date) {
+  const retryAfter = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+  return new TooManyRequestsError(retryAfter, 'Account is temporarily locked after too many failed logins', {
+    code: 'ACCOUNT_LOCKED',
+    details: { locked_until: lockedUntil },
+  });
+}
+
+const lockoutMs = (lockoutCount: number) => Math.min(LOGIN_LOCKOUT_MINUTES * 2 ** lockoutCount, LOGIN_LOCKOUT_MAX_MINUTES) * 60 * 1000;
+
+// Setiap LOGIN_MAX_ATTEMPTS gagal berturut-turut akun dikunci; lama kunci berlipat dua setiap kali
+// (1, 2, 4, ... menit, maksimal LOGIN_LOCKOUT_MAX_MINUTES) sampai login berhasil atau password di-reset.
+// Counter dinaikkan secara atomik, jadi percobaan paralel tidak bisa melewati batas.
+async function recordFailedLogin(userId: string) {
+  const { failed_login_count, lockout_count } = await prisma.users.update({
+    where: { id: userId },
+    data: { failed_login_count: { increment: 1 } },
+    select: { failed_login_count: true, lockout_count: true },
+  });
+  if (failed_login_count < LOGIN_MAX_ATTEMPTS) return;
+
+  const lockedUntil = new Date(Date.now() + lockoutMs(lockout_count));
+  const locked = await prisma.users.updateMany({
+    where: { id: userId, failed_login_count: { gte: LOGIN_MAX_ATTEMPTS } },
+    data: { failed_login_count: 0, lockout_count: { increment: 1 }, locked_until: lockedUntil },
+  });
+  if (locked.count > 0) throw accountLocked(lockedUntil);
+}
+
+// Email yang tidak terdaftar dikunci dengan aturan yang sama (counter di RateLimitStore, bukan di tabel users),
+// supaya ACCOUNT_LOCKED tidak bisa dipakai untuk menebak email mana yang punya akun
+const unknownFailures = (email: string) => `login-failed:${email}`;
+const unknownLock = (email: string) => `login-locked:${email}`;
+
+async function unknownLockedUntil(email: string) {
+  const lock = await getRateLimitStore().get(unknownLock(email));
+  return lock && new Date(lock.resetAt);
+}
+
+async function recordUnknownFailedLogin(email: string) {
+  const store = getRateLimitStore();
+  // Tidak pernah ada login berhasil yang mereset counter ini, jadi dibatasi window LOGIN_LOCKOUT_MAX_MINUTES
+  const { count } = await store.hit(unknownFailures(email), LOGIN_LOCKOUT_MAX_MINUTES * 60 * 1000);
+  if (count % LOGIN_MAX_ATTEMPTS !== 0) return;
+  const { resetAt } = await store.hit(unknownLock(email), lockoutMs(count / LOGIN_MAX_ATTEMPTS - 1));
+  throw accountLocked(new Date(resetAt));
+}
+
+// Hash pembanding untuk email yang tidak terdaftar, supaya waktu respons sama dengan salah password
+const DUMMY_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString('hex'), 10);
+
+// Konfirmasi password untuk aksi sensitif (ganti password/email, hapus akun); salah password ikut dihitung lockout
+async function confirmPassword(user: { id: string; password: string; locked_until: Date | null }, password: string) {
+  if (user.locked_until && user.locked_until > new Date()) throw accountLocked(user.locked_until);
+  if (await bcrypt.compare(password, user.password)) return;
+  await recordFailedLogin(user.id);
+  throw new BadRequestError('Current password is incorrect', { code: 'INVALID_PASSWORD' });
+}
+
+// Refresh token baru dalam satu family; family = satu sesi login yang terus dirotasi
+async function issueTokens(user: TokenUser, familyId: string = crypto.randomUUID()) {
+  const access_token = jwt.sign({ id: user.id, email: user.email, role: user.role }, process.env.JWT_SECRET!, { expiresIn: ACCESS_TOKEN_TTL });
+  const refresh_token = generateToken();
+  const stored = await prisma.refresh_tokens.create({
+    data: {
+      user_id: user.id,
+      family_id: familyId,
+      token_hash: hashToken(refresh_token),
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    },
+  });
+  return { access_token, refresh_token, refresh_token_id: stored.id };
+}
+
+// Token lama dengan tujuan yang sama dibatalkan, jadi hanya link terakhir yang berlaku
+async function createAuthToken(userId: string, purpose: AuthTokenPurpose, ttlMs: number) {
+  const token = generateToken(32);
+  await prisma.auth_tokens.updateMany({ where: { user_id: userId, purpose, used_at: null }, data: { used_at: new Date() } });
+  await prisma.auth_tokens.create({
+    data: { user_id: userId, purpose, token_hash: hashToken(token), expires_at: new Date(Date.now() + ttlMs) },
+  });
+  return token;
+}
+
+// Tandai token terpakai secara bersyarat, sehingga token yang sama tidak bisa dipakai dua kali
+async function consumeAuthToken(token: string, purpose: AuthTokenPurpose) {
+  const stored = await prisma.auth_tokens.findUnique({ where: { token_hash: hashToken(token) } });
+  if (!stored || stored.purpose !== purpose || stored.used_at || stored.expires_at < new Date()) throw invalidAuthToken();
+  const used = await prisma.auth_tokens.updateMany({ where: { id: stored.id, used_at: null }, data: { used_at: new Date() } });
+  if (used.count === 0) throw invalidAuthToken();
+  return stored.user_id;
+}
+
+async function findActiveUser(userId: string) {
+  const user = await prisma.users.findUnique({ where: { id: userId } });
+  if (!user || user.deleted_at) throw new UnauthorizedError('Invalid token', { code: 'INVALID_TOKEN' });
+  return user;
+}
+
+async function sendVerificationEmail(user: { id: string; email: string }) {
+  const token = await createAuthToken(user.id, 'email_verification', EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+  await getMailer().send({
+    to: user.email,
+    subject: 'Verify your email',
+    text: `Use this token to verify your email: ${token}\n${APP_URL}/verify-email?token=${token}`,
+  });
+}
 
 export async function register(input: Register) {
+  if (await prisma.users.findUnique({ where: { email: input.email } })) {
+    throw emailTaken();
+  }
   const hashed = await bcrypt.hash(input.password, 10);
   const user = await prisma.users.create({ data: { username: input.username, email: input.email, password: hashed } });
-  return { id: user.id, email: user.email, username: user.username };
+  await sendVerificationEmail(user);
+  return { id: user.id, email: user.email, username: user.username, role: user.role };
 }
 export async function login(input: Login) {
   const user = await prisma.users.findUnique({ where: { email: input.email } });
-  if (!user) throw Object.assign(new Error('Invalid credentials'), { status: 401 });
+  if (!user) {
+    const lockedUntil = await unknownLockedUntil(input.email);
+    if (lockedUntil) throw accountLocked(lockedUntil);
+    await bcrypt.compare(input.password, DUMMY_HASH);
+    await recordUnknownFailedLogin(input.email);
+    throw invalidCredentials();
+  }
+  // Selama terkunci password tidak dicek sama sekali, termasuk password yang benar
+  if (user.locked_until && user.locked_until > new Date()) throw accountLocked(user.locked_until);
   const ok = await bcrypt.compare(input.password, user.password);
-  if (!ok) throw Object.assign(new Error('Invalid credentials'), { status: 401 });
-  const access_token = jwt.sign({ id: user.id, email: user.email }, process.env.JWT_SECRET!, { expiresIn: '1d' });
-  return { access_token };
+  if (!ok) {
+    await recordFailedLogin(user.id);
+    throw invalidCredentials();
+  }
+  // Dicek setelah password, supaya status akun tidak bocor ke yang menebak password
+  if (user.disabled_at) throw accountDisabled();
+  if (user.failed_login_count > 0 || user.lockout_count > 0 || user.locked_until) {
+    await prisma.users.update({ where: { id: user.id }, data: clearLockout });
+  }
+  const { access_token, refresh_token } = await issueTokens(user);
+  return { access_token, refresh_token };
+}
+export async function refresh(token: string) {
+  const stored = await prisma.refresh_tokens.findUnique({ where: { token_hash: hashToken(token) }, include: { user: true } });
+  if (!stored) throw invalidRefresh();
+  if (stored.revoked_at) {
+    // Token yang sudah dirotasi dipakai lagi: anggap bocor, cabut seluruh family
+    await prisma.refresh_tokens.updateMany({ where: { family_id: stored.family_id, revoked_at: null }, data: { revoked_at: new Date() } });
+    throw invalidRefresh();
+  }
+  if (stored.expires_at < new Date()) throw invalidRefresh();
+  if (stored.user.deleted_at) throw invalidRefresh();
+  if (stored.user.disabled_at) throw accountDisabled();
+
+  const next = await issueTokens(stored.user, stored.family_id);
+  // Bersyarat pada revoked_at null, supaya dua refresh paralel dengan token yang sama tidak sama-sama lolos
+  const rotated = await prisma.refresh_tokens.updateMany({
+    where: { id: stored.id, revoked_at: null },
+    data: { revoked_at: new Date(), replaced_by: next.refresh_token_id },
+  });
+  if (rotated.count === 0) {
+    await prisma.refresh_tokens.updateMany({ where: { family_id: stored.family_id, revoked_at: null }, data: { revoked_at: new Date() } });
+    throw invalidRefresh();
+  }
+  return { access_token: next.access_token, refresh_token: next.refresh_token };
+}
+export async function logout(token: string) {
+  const stored = await prisma.refresh_tokens.findUnique({ where: { token_hash: hashToken(token) } });
+  if (!stored) return;
+  await prisma.refresh_tokens.updateMany({ where: { family_id: stored.family_id, revoked_at: null }, data: { revoked_at: new Date() } });
+}
+// Cabut semua sesi: refresh token dicabut dan access token lama ditolak authGuard
+export async function revokeAllSessions(userId: string) {
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.refresh_tokens.updateMany({ where: { user_id: userId, revoked_at: null }, data: { revoked_at: now } }),
+    prisma.users.update({ where: { id: userId }, data: { credentials_changed_at: now } }),
+  ]);
+}
+// Respons selalu sama walau email tidak terdaftar, supaya tidak bisa dipakai menebak akun
+export async function forgotPassword(email: string) {
+  const user = await prisma.users.findUnique({ where: { email } });
+  if (!user) return;
+  const token = await createAuthToken(user.id, 'password_reset', PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+  await getMailer().send({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Use this token to reset your password: ${token}\n${APP_URL}/reset-password?token=${token}\nThe token expires in ${PASSWORD_RESET_TTL_MINUTES} minutes.`,
+  });
+}
+export async function resetPassword(token: string, password: string) {
+  const userId = await consumeAuthToken(token, 'password_reset');
+  await prisma.users.update({ where: { id: userId }, data: { password: await bcrypt.hash(password, 10), ...clearLockout } });
+  await revokeAllSessions(userId);
+}
+export async function verifyEmail(token: string) {
+  const userId = await consumeAuthToken(token, 'email_verification');
+  await prisma.users.update({ where: { id: userId }, data: { email_verified_at: new Date() } });
+}
+export async function resendVerification(email: string) {
+  const user = await prisma.users.findUnique({ where: { email } });
+  if (!user || user.email_verified_at) return;
+  await sendVerificationEmail(user);
 }
 export async function me(userId: string) {
-  return prisma.users.findUnique({ where: { id: userId }, select: { id: true, email: true, username: true } });
+  return prisma.users.findUnique({ where: { id: userId }, select: profile });
+}
+export async function updateProfile(userId: string, input: { username?: string | null }) {
+  return prisma.users.update({ where: { id: userId }, data: input, select: profile });
+}
+// Sesi lain dicabut; client yang mengganti password langsung mendapat pasangan token baru
+export async function changePassword(userId: string, currentPassword: string, newPassword: string) {
+  const user = await findActiveUser(userId);
+  await confirmPassword(user, currentPassword);
+  await prisma.users.update({ where: { id: userId }, data: { password: await bcrypt.hash(newPassword, 10), ...clearLockout } });
+  await revokeAllSessions(userId);
+  const { access_token, refresh_token } = await issueTokens(user);
+  return { access_token, refresh_token };
+}
+// Email lama tetap dipakai sampai token konfirmasi yang dikirim ke email baru dipakai
+export async function requestEmailChange(userId: string, newEmail: string, password: string) {
+  const user = await findActiveUser(userId);
+  await confirmPassword(user, password);
+  if (newEmail === user.email) throw new BadRequestError('New email is the same as the current email', { code: 'EMAIL_UNCHANGED' });
+  if (await prisma.users.findUnique({ where: { email: newEmail } })) throw emailTaken();
+
+  await prisma.users.update({ where: { id: userId }, data: { pending_email: newEmail } });
+  const token = await createAuthToken(userId, 'email_change', EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+  await getMailer().send({
+    to: newEmail,
+    subject: 'Confirm your new email',
+    text: `Use this token to confirm your new email address: ${token}\n${APP_URL}/confirm-email-change?token=${token}`,
+  });
+  await getMailer().send({
+    to: user.email,
+    subject: 'Email change requested',
+    text: `A change of your account email to ${newEmail} was requested. If this was not you, change your password now.`,
+  });
+  return { pending_email: newEmail };
+}
+export async function confirmEmailChange(token: string) {
+  const userId = await consumeAuthToken(token, 'email_change');
+  const user = await findActiveUser(userId);
+  if (!user.pending_email) throw invalidAuthToken();
+  // Email bisa saja sudah dipakai akun lain selama menunggu konfirmasi
+  if (await prisma.users.findUnique({ where: { email: user.pending_email } })) throw emailTaken();
+  return prisma.users.update({
+    where: { id: userId },
+    data: { email: user.pending_email, pending_email: null, email_verified_at: new Date() },
+    select: profile,
+  });
+}
+// Akun tidak dihapus dari database: order tetap ada untuk laporan, data pribadi dianonimkan,
+// sesi/token/cart/wishlist/notifikasi dibuang dan reservasi stok dikembalikan. Email lama bisa dipakai register lagi.
+export async function deleteAccount(userId: string, password: string) {
+  const user = await findActiveUser(userId);
+  await confirmPassword(user, password);
+  if (user.role === 'admin') {
+    const otherAdmins = await prisma.users.count({ where: { role: 'admin', id: { not: userId }, deleted_at: null, disabled_at: null } });
+    if (otherAdmins === 0) throw new ConflictError('The last active admin cannot delete their account', { code: 'LAST_ADMIN' });
+  }
+
+  const unusablePassword = await bcrypt.hash(generateToken(), 10);
+  const now = new Date();
+  await stockTransaction(async (tx) => {
+    await releaseReservations(tx, userId, 'Account deleted');
+    await tx.cart_items.deleteMany({ where: { user_id: userId } });
+    await tx.wishlist_items.deleteMany({ where: { user_id: userId } });
+    await tx.stock_subscriptions.deleteMany({ where: { user_id: userId } });
+    await tx.notifications.deleteMany({ where: { user_id: userId } });
+    await tx.auth_tokens.deleteMany({ where: { user_id: userId } });
+    await tx.refresh_tokens.deleteMany({ where: { user_id: userId } });
+    await tx.users.update({
+      where: { id: userId },
+      data: {
+        email: `deleted-${userId}@deleted.invalid`,
+        username: null,
+        pending_email: null,
+        password: unusablePassword,
+        email_verified_at: null,
+        credentials_changed_at: now,
+        deleted_at: now,
+        ...clearLockout,
+      },
+    });
+  });
 }
@@ -0,0 +1,9 @@
+import { namedEntityService } from './named-entity.service';
+
+// List, detail, statistik penjualan, create, update dan hapus/gabung author; lihat named-entity.service
+const authors = namedEntityService({ model: 'authors', entity: 'Author', code: 'AUTHOR', bookField: 'author_id' });
+
+export const { findByName, create, list, statistics, update, remove } = authors;
+export const findAuthor = authors.find;
+export const detail = authors.find;
+export const authorEtag = authors.etag;
@@ -0,0 +1,11 @@
+import { Prisma } from '@prisma/client';
+
+// Relasi yang ikut di setiap representasi buku; genre tambahan yang sudah dihapus tidak ditampilkan
+export const bookInclude = {
+  genre: true,
+  genres: { where: { deleted_at: null }, orderBy: { name: 'asc' } },
+  author: true,
+  publisher: true,
+} satisfies Prisma.booksInclude;
+
+export type BookWithRelations = Prisma.booksGetPayload<{ include: typeof bookInclude }>;
@@ -0,0 +1,129 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma/client';
+import { placeOrder } from './transaction.service';
+import * as inventory from './inventory.service';
+import * as promotionSvc from './promotion.service';
+import { bookInclude } from './book.service';
+import { AppError, BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+
+// Harga dan stok selalu dibaca langsung dari books, bukan disimpan di cart.
+// promoCode hanya pratinjau: kode yang tidak berlaku dilaporkan di promotion, bukan dilempar sebagai error.
+export async function get(userId: string, promoCode?: string) {
+  const [rows, reservations] = await Promise.all([
+    prisma.cart_items.findMany({
+      where: { user_id: userId },
+      include: { book: { include: bookInclude } },
+      orderBy: { created_at: 'asc' },
+    }),
+    prisma.stock_reservations.findMany({ where: { user_id: userId, expires_at: { gt: new Date() } } }),
+  ]);
+
+  let subtotal = new Prisma.Decimal(0);
+  const items = rows.map((row) => {
+    // Stok yang ditahan reservasi user sendiri tetap dihitung tersedia untuk user ini
+    const reserved = reservations.find((r) => r.book_id === row.book_id)?.quantity ?? 0;
+    const unavailable = row.book.deleted_at !== null;
+    const insufficient_stock = !unavailable && row.book.stock_quantity + reserved < row.quantity;
+    const line_total = row.book.price.mul(row.quantity);
+    if (!unavailable && !insufficient_stock) subtotal = subtotal.add(line_total);
+    return {
+      book_id: row.book_id,
+      quantity: row.quantity,
+      unit_price: row.book.price,
+      line_total,
+      stock_quantity: row.book.stock_quantity,
+      reserved_quantity: reserved,
+      unavailable,
+      insufficient_stock,
+      book: row.book,
+    };
+  });
+
+  // Hanya item yang bisa di-checkout yang ikut dinilai promo, sama seperti subtotal
+  const lines = items
+    .filter((i) => !i.unavailable && !i.insufficient_stock)
+    .map((i) => ({ book_id: i.book_id, genre_ids: [i.book.genre_id, ...i.book.genres.map((g) => g.id)], line_total: i.line_total }));
+  const promotion = promoCode ? await preview(userId, promoCode, lines) : undefined;
+
+  return {
+    items,
+    subtotal,
+    ...(promotion && { promotion, total: subtotal.sub(promotion.discount) }),
+    reservation: reservations.length
+      ? { expires_at: reservations[0].expires_at, items: reservations.map((r) => ({ book_id: r.book_id, quantity: r.quantity })) }
+      : null,
+    can_checkout: items.length > 0 && items.every((i) => !i.unavailable && !i.insufficient_stock),
+  };
+}
+
+async function preview(userId: string, code: string, lines: promotionSvc.PromotionLine[]) {
+  try {
+    const { promotion, eligible_subtotal, discount } = await promotionSvc.evaluate(prisma, code, userId, lines);
+    return { code: promotion.code, valid: true, eligible_subtotal, discount };
+  } catch (err) {
+    if (!(err instanceof AppError)) throw err;
+    return { code: code.trim().toUpperCase(), valid: false, error_code: err.code, message: err.message, discount: new Prisma.Decimal(0) };
+  }
+}
+
+export async function addItem(userId: string, input: { book_id: string; quantity: number }) {
+  const book = await prisma.books.findFirst({ where: { id: input.book_id, deleted_at: null } });
+  if (!book) throw new NotFoundError(`Book with ID ${input.book_id} not found`, { code: 'BOOK_NOT_FOUND' });
+  await prisma.cart_items.upsert({
+    where: { user_id_book_id: { user_id: userId, book_id: input.book_id } },
+    create: { user_id: userId, book_id: input.book_id, quantity: input.quantity },
+    update: { quantity: { increment: input.quantity } },
+  });
+  return get(userId);
+}
+
+export async function updateItem(userId: string, bookId: string, quantity: number) {
+  const updated = await prisma.cart_items.updateMany({ where: { user_id: userId, book_id: bookId }, data: { quantity } });
+  if (updated.count === 0) throw new NotFoundError('Item not found in cart');
+  return get(userId);
+}
+
+export async function removeItem(userId: string, bookId: string) {
+  const deleted = await prisma.cart_items.deleteMany({ where: { user_id: userId, book_id: bookId } });
+  if (deleted.count === 0) throw new NotFoundError('Item not found in cart');
+  return get(userId);
+}
+
+// Tahan stok semua item cart untuk checkout (menggantikan reservasi sebelumnya); gagal seluruhnya jika ada yang kurang
+export async function reserve(userId: string) {
+  await inventory.stockTransaction(async (tx) => {
+    const rows = await tx.cart_items.findMany({ where: { user_id: userId }, include: { book: { select: { deleted_at: true } } } });
+    if (rows.length === 0) throw new BadRequestError('Cart is empty', { code: 'CART_EMPTY' });
+    const removed = rows.find((r) => r.book.deleted_at);
+    if (removed) throw new NotFoundError(`Book with ID ${removed.book_id} not found`, { code: 'BOOK_NOT_FOUND', details: { book_id: removed.book_id } });
+    await inventory.reserve(tx, userId, rows.map((r) => ({ book_id: r.book_id, quantity: r.quantity })));
+  });
+  return get(userId);
+}
+
+export async function releaseReservation(userId: string) {
+  const released = await inventory.stockTransaction((tx) => inventory.releaseReservations(tx, userId, 'Released by user'));
+  if (released === 0) throw new NotFoundError('No active reservation', { code: 'RESERVATION_NOT_FOUND' });
+  return get(userId);
+}
+
+// Cart -> orders dalam satu transaksi: cart dikosongkan lebih dulu, lalu stok dikurangi lewat placeOrder
+// (reservasi user ikut dilepas)
+export async function checkout(userId: string, promoCode?: string) {
+  return inventory.stockTransaction(async (tx) => {
+    const rows = await tx.cart_items.findMany({ where: { user_id: userId }, orderBy: { created_at: 'asc' } });
+    if (rows.length === 0) throw new BadRequestError('Cart is empty', { code: 'CART_EMPTY' });
+
+    // Menghapus baris cart sekaligus menguncinya: checkout paralel untuk cart yang sama menunggu di sini, lalu
+    // tidak menemukan barisnya lagi setelah checkout pertama commit -> 409, bukan order kedua
+    const deleted = await tx.cart_items.deleteMany({ where: { id: { in: rows.map((r) => r.id) } } });
+    if (deleted.count !== rows.length) {
+      throw new ConflictError('Cart was changed or already checked out by another request', { code: 'CART_EMPTY' });
+    }
+
+    const order = await placeOrder(tx, userId, rows.map((r) => ({ book_id: r.book_id, quantity: r.quantity })), promoCode);
+    // Sisa reservasi untuk buku yang sudah tidak ada di cart
+    await inventory.releaseReservations(tx, userId, 'Checkout');
+    return order;
+  });
+}
@@ -0,0 +1,230 @@
+import { Prisma } from '@prisma/client';
+import { Db, prisma, retryTransaction } from '../prisma/client';
+import * as genreSvc from './genre.service';
+import * as authorSvc from './author.service';
+import * as publisherSvc from './publisher.service';
+import { normalizeName } from './named-entity.service';
+import { setStock, stockTransaction } from './inventory.service';
+import { bookInclude } from './book.service';
+import { AppError } from '../utils/errors';
+
+export type ImportBook = {
+  title: string;
+  author: string;
+  publisher: string;
+  publication_year: number;
+  description?: string | null;
+  price: number;
+  stock_quantity: number;
+  reorder_threshold?: number;
+  genre: string;
+  genres?: string[];
+};
+
+export type ImportIssue = { field: string; message: string };
+
+// Baris yang sudah divalidasi controller: data terisi jika lolos DTO, errors jika tidak
+export type ImportRow = { row: number; title?: string; data?: ImportBook; errors?: ImportIssue[] };
+
+// upsert: judul yang sudah ada di-update; create: judul yang sudah ada ditolak
+export type ImportMode = 'upsert' | 'create';
+
+export type ImportRowResult = {
+  row: number;
+  status: 'created' | 'updated' | 'rejected';
+  title?: string;
+  id?: string;
+  errors?: ImportIssue[];
+};
+
+// Kolom file export; sama dengan kolom import (+ id) supaya hasil export bisa langsung diimport ulang
+export const EXPORT_COLUMNS = ['id', 'title', 'author', 'publisher', 'publication_year', 'description', 'price', 'stock_quantity', 'reorder_threshold', 'genre', 'genres'] as const;
+
+const EXPORT_BATCH = 500;
+// Baris per transaksi import; satu transaksi untuk seluruh file (maks. 5000 baris) bisa melewati timeout
+const IMPORT_BATCH = 250;
+const IMPORT_TX_TIMEOUT_MS = 60_000;
+
+type NameLookup = {
+  findByName(name: string, db?: Db): Promise<{ id: string } | null>;
+  create(input: { name: string }, db?: Db): Promise<{ id: string }>;
+};
+
+// Nama dicocokkan ke baris yang sudah ada lewat key; yang belum ada dibuat saat import (tidak saat dry run).
+// Genre dicocokkan persis, author/publisher tanpa membedakan huruf besar/kecil.
+async function matchNames(names: string[], lookup: NameLookup, key: (name: string) => string = (name) => name) {
+  const ids = new Map<string, string>();
+  const missing = new Map<string, string>();
+  for (const name of names) {
+    if (ids.has(key(name)) || missing.has(key(name))) continue;
+    const row = await lookup.findByName(name);
+    if (row) ids.set(key(name), row.id);
+    else missing.set(key(name), name);
+  }
+  return {
+    missing: [...missing.values()],
+    id: (name: string) => ids.get(key(name))!,
+    // Dipanggil sebelum baris import ditulis
+    async createMissing(tx: Db) {
+      for (const [k, name] of missing) ids.set(k, (await lookup.create({ name }, tx)).id);
+    },
+  };
+}
+
+const caseInsensitive = (name: string) => normalizeName(name).toLowerCase();
+// Judul dicocokkan tanpa membedakan huruf besar/kecil, sama dengan POST /books dan indeks books_title_live_key
+const titleKey = (title: string) => title.toLowerCase();
+
+type PlannedRow = { result: ImportRowResult; data: ImportBook; existingId?: string };
+type Resolve = (name: string) => string;
+
+// Tulis satu baris import; stok tidak ditulis langsung, selisihnya dicatat di ledger sebagai adjustment
+async function writeBook(tx: Db, { data, existingId }: PlannedRow, ids: { genre: Resolve; author: Resolve; publisher: Resolve }, actorId: string) {
+  const { genre, genres: tags, author, publisher, stock_quantity, ...fields } = data;
+  const genreId = ids.genre(genre);
+  // Genre tambahan di file menggantikan genre tambahan lama; tanpa kolom/field genres genre tambahan lama dipertahankan
+  // (sama dengan PATCH /books tanpa genre_ids). Genre utama tidak diulang di sana
+  const current = existingId && !tags
+    ? (await tx.books.findUniqueOrThrow({ where: { id: existingId }, select: { genres: { select: { id: true } } } })).genres.map((g) => g.id)
+    : [];
+  const extraIds = tags ? tags.map((name) => ids.genre(name)) : current;
+  const extra = [...new Set(extraIds)].filter((id) => id !== genreId).map((id) => ({ id }));
+  const input = { ...fields, genre_id: genreId, author_id: ids.author(author), publisher_id: ids.publisher(publisher) };
+  const book = existingId
+    ? await tx.books.update({ where: { id: existingId }, data: { ...input, genres: { set: extra } } })
+    : await tx.books.create({ data: { ...input, stock_quantity: 0, genres: { connect: extra } } });
+  await setStock(tx, book.id, stock_quantity, actorId, 'Bulk import');
+  return book.id;
+}
+
+// Error yang menolak satu baris (aturan bisnis, judul yang baru saja dipakai request lain, ...); selain itu dilempar lagi
+function rowError(err: unknown): ImportIssue {
+  if (err instanceof AppError) return { field: 'row', message: err.message };
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    if (err.code === 'P2002') return { field: 'title', message: 'Book with this title already exists' };
+    return { field: 'row', message: `Could not be saved (${err.code})` };
+  }
+  throw err;
+}
+
+export async function importBooks(rows: ImportRow[], opts: { dryRun: boolean; mode: ImportMode; actorId: string }) {
+  const results: ImportRowResult[] = [];
+  const planned: PlannedRow[] = [];
+
+  // title unik di antara buku aktif; judul buku yang sudah dihapus boleh dipakai lagi
+  const titles = rows.flatMap((r) => (r.data ? [r.data.title] : []));
+  const existing = await prisma.books.findMany({
+    where: { title: { in: titles, mode: 'insensitive' }, deleted_at: null },
+    select: { id: true, title: true },
+  });
+  const byTitle = new Map(existing.map((b) => [titleKey(b.title), b]));
+  const seen = new Map<string, number>();
+
+  for (const row of rows) {
+    if (!row.data) {
+      results.push({ row: row.row, status: 'rejected', title: row.title, errors: row.errors });
+      continue;
+    }
+
+    const { title } = row.data;
+    const reject = (message: string) => results.push({ row: row.row, status: 'rejected', title, errors: [{ field: 'title', message }] });
+
+    const firstRow = seen.get(titleKey(title));
+    if (firstRow !== undefined) {
+      reject(`Duplicate title in this file (first seen at row ${firstRow})`);
+      continue;
+    }
+    seen.set(titleKey(title), row.row);
+
+    const current = byTitle.get(titleKey(title));
+    if (current && opts.mode === 'create') {
+      reject('Book with this title already exists');
+      continue;
+    }
+
+    const result: ImportRowResult = { row: row.row, status: current ? 'updated' : 'created', title, id: current?.id };
+    results.push(result);
+    planned.push({ result, data: row.data, existingId: current?.id });
+  }
+
+  const genres = await matchNames(planned.flatMap((p) => [p.data.genre, ...(p.data.genres ?? [])]), genreSvc);
+  const authors = await matchNames(planned.map((p) => p.data.author), authorSvc, caseInsensitive);
+  const publishers = await matchNames(planned.map((p) => p.data.publisher), publisherSvc, caseInsensitive);
+
+  if (!opts.dryRun && planned.length) {
+    await retryTransaction(async (tx) => {
+      await genres.createMissing(tx);
+      await authors.createMissing(tx);
+      await publishers.createMissing(tx);
+    });
+
+    const ids = { genre: genres.id, author: authors.id, publisher: publishers.id };
+    const reject = (row: PlannedRow, error: ImportIssue) => Object.assign(row.result, { status: 'rejected', id: undefined, errors: [error] });
+
+    // Ditulis per batch, setiap batch satu transaksi. Jika batch gagal, barisnya diulang satu per satu
+    // supaya hanya baris yang bermasalah yang ditolak; batch lain tidak ikut dibatalkan
+    for (let i = 0; i < planned.length; i += IMPORT_BATCH) {
+      const batch = planned.slice(i, i + IMPORT_BATCH);
+      try {
+        const bookIds = await stockTransaction(async (tx) => {
+          const written: string[] = [];
+          for (const row of batch) written.push(await writeBook(tx, row, ids, opts.actorId));
+          return written;
+        }, { timeout: IMPORT_TX_TIMEOUT_MS });
+        batch.forEach((row, j) => (row.result.id = bookIds[j]));
+      } catch (err) {
+        rowError(err); // error yang bukan karena isi baris (misal koneksi) langsung dilempar lagi
+        for (const row of batch) {
+          try {
+            row.result.id = await stockTransaction((tx) => writeBook(tx, row, ids, opts.actorId));
+          } catch (rowErr) {
+            reject(row, rowError(rowErr));
+          }
+        }
+      }
+    }
+  }
+
+  const count = (status: ImportRowResult['status']) => results.filter((r) => r.status === status).length;
+
+  return {
+    dry_run: opts.dryRun,
+    mode: opts.mode,
+    summary: { total: rows.length, created: count('created'), updated: count('updated'), rejected: count('rejected') },
+    genres_created: genres.missing,
+    authors_created: authors.missing,
+    publishers_created: publishers.missing,
+    rows: results,
+  };
+}
+
+// Dibaca per batch dengan cursor supaya katalog besar tidak dimuat ke memori sekaligus
+export async function* exportBooks(where: Prisma.booksWhereInput, orderBy: Prisma.booksOrderByWithRelationInput[]) {
+  let cursor: string | undefined;
+  while (true) {
+    const batch = await prisma.books.findMany({
+      where,
+      orderBy,
+      include: bookInclude,
+      take: EXPORT_BATCH,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    for (const book of batch) {
+      yield {
+        id: book.id,
+        title: book.title,
+        author: book.author.name,
+        publisher: book.publisher.name,
+        publication_year: book.publication_year,
+        description: book.description,
+        price: book.price.toNumber(),
+        stock_quantity: book.stock_quantity,
+        reorder_threshold: book.reorder_threshold,
+        genre: book.genre.name,
+        genres: book.genres.map((g) => g.name).join(';'),
+      };
+    }
+    if (batch.length < EXPORT_BATCH) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
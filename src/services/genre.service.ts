@@ -1,14 +1,34 @@
-import { prisma } from '../prisma/client';
-export async function create(input: { name: string }) {
-  return prisma.genres.create({ data: { name: input.name } });
+import { Db, prisma, retryTransaction } from '../prisma/client';
+import { deletedWhere, ListQuery, toFindArgs, toPage, toWhere } from '../utils/query';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { assertIfMatch, concurrentModification, etagOf } from '../utils/etag';
+
+const duplicateGenre = () => new ConflictError('Genre name already exists', { code: 'DUPLICATE_GENRE' });
+
+// db bisa diisi client $transaction supaya genre ikut di-rollback bersama operasi lain
+export async function create(input: { name: string }, db: Db = prisma) {
+  if (await findByName(input.name, db)) throw duplicateGenre();
+  return db.genres.create({ data: { name: input.name } });
 }
-export async function list() {
-  return prisma.genres.findMany({ where: { deleted_at: null }, orderBy: { name: 'asc' } });
+export async function list(query: ListQuery) {
+  const where = { ...toWhere(query), ...deletedWhere(query) };
+  const [rows, total] = await Promise.all([
+    prisma.genres.findMany({ where, ...toFindArgs(query) }),
+    prisma.genres.count({ where }),
+  ]);
+  return toPage(query, rows, total);
 }
+export const genreEtag = (genre: { version: number }) => etagOf(genre.version);
+
 export async function detail(id: string) {
   return prisma.genres.findFirst({ where: { id, deleted_at: null } });
 }
-export async function update(id: string, input: { name: string }) {
+// ifMatch: header If-Match (opsional); versi lama -> 412
+export async function update(id: string, input: { name: string }, ifMatch?: string) {
+  const genre = await prisma.genres.findFirst({ where: { id, deleted_at: null } });
+  if (!genre) throw new NotFoundError('Genre not found', { code: 'GENRE_NOT_FOUND' });
+  assertIfMatch(ifMatch, genreEtag(genre));
+
   const duplicate = await prisma.genres.findFirst({
     where: {
       name: input.name,
@@ -17,21 +37,87 @@ export async function update(id: string, input: { name: string }) {
     },
   });
 
-  if (duplicate) {
-    // lempar error custom, biar controller bisa balikin 400
-    const error: any = new Error('Genre name already exists');
-    error.code = 'DUPLICATE_GENRE';
-    throw error;
-  }
-  return prisma.genres.update({ where: { id }, data: { name: input.name } });
+  if (duplicate) throw duplicateGenre();
+  const updated = await prisma.genres.updateMany({
+    where: { id, ...(ifMatch && { version: genre.version }) },
+    data: { name: input.name },
+  });
+  if (updated.count === 0) throw concurrentModification();
+  return prisma.genres.findUniqueOrThrow({ where: { id } });
+}
+async function findGenre(id: string) {
+  const genre = await prisma.genres.findUnique({ where: { id } });
+  if (!genre) throw new NotFoundError('Genre not found', { code: 'GENRE_NOT_FOUND' });
+  return genre;
 }
-export async function softDelete(id: string) {
 
-  return prisma.genres.update({ where: { id }, data: { deleted_at: new Date() } });
+// Genre yang masih dipakai buku aktif (sebagai genre utama maupun genre tambahan) hanya bisa dihapus jika bukunya
+// dipindah ke genre lain (reassignTo)
+export async function softDelete(id: string, reassignTo?: string, ifMatch?: string) {
+  const genre = await findGenre(id);
+  if (genre.deleted_at) throw new NotFoundError('Genre not found', { code: 'GENRE_NOT_FOUND' });
+  assertIfMatch(ifMatch, genreEtag(genre));
+
+  const [liveBooks, taggedBooks] = await Promise.all([
+    prisma.books.count({ where: { genre_id: id, deleted_at: null } }),
+    prisma.books.count({ where: { genres: { some: { id } }, deleted_at: null } }),
+  ]);
+  if ((liveBooks > 0 || taggedBooks > 0) && !reassignTo) {
+    throw new ConflictError('Genre is still used by books, pass reassign_to to move them to another genre', {
+      code: 'GENRE_IN_USE',
+      details: { book_count: liveBooks, tagged_book_count: taggedBooks },
+    });
+  }
+
+  if (reassignTo) {
+    if (reassignTo === id) throw new BadRequestError('Cannot reassign books to the genre being deleted', { code: 'INVALID_REASSIGN_TARGET' });
+    const target = await prisma.genres.findFirst({ where: { id: reassignTo, deleted_at: null } });
+    if (!target) throw new NotFoundError('Reassignment target genre not found', { code: 'GENRE_NOT_FOUND' });
+  }
+
+  // Buku yang sudah terhapus juga dipindah, supaya bisa di-restore tanpa menunjuk genre terhapus
+  return retryTransaction(async (tx) => {
+    const moved = reassignTo
+      ? await tx.books.updateMany({ where: { genre_id: id }, data: { genre_id: reassignTo } })
+      : { count: 0 };
+    // Genre tambahan ikut diganti; genre target tidak ditambahkan jika sudah menjadi genre utama buku itu
+    const tagged = reassignTo
+      ? await tx.books.findMany({ where: { genres: { some: { id } } }, select: { id: true, genre_id: true } })
+      : [];
+    for (const book of tagged) {
+      await tx.books.update({
+        where: { id: book.id },
+        data: { genres: { disconnect: { id }, ...(book.genre_id !== reassignTo && { connect: { id: reassignTo } }) } },
+      });
+    }
+    const deleted = await tx.genres.updateMany({
+      where: { id, ...(ifMatch && { version: genre.version }) },
+      data: { deleted_at: new Date() },
+    });
+    if (deleted.count === 0) throw concurrentModification();
+    return { ...(await tx.genres.findUniqueOrThrow({ where: { id } })), reassigned_books: moved.count, retagged_books: tagged.length };
+  });
 }
-export async function findByName(name: string) {
-  return prisma.genres.findFirst({
+export async function restore(id: string) {
+  const genre = await findGenre(id);
+  if (!genre.deleted_at) throw new ConflictError('Genre is not deleted', { code: 'NOT_DELETED' });
+  // Nama bisa sudah dipakai ulang oleh genre lain selama genre ini terhapus
+  if (await findByName(genre.name)) throw duplicateGenre();
+  return prisma.genres.update({ where: { id }, data: { deleted_at: null } });
+}
+// Hapus permanen; hanya untuk genre yang sudah di-soft-delete dan tidak punya buku sama sekali
+export async function purge(id: string, ifMatch?: string) {
+  const genre = await findGenre(id);
+  if (!genre.deleted_at) throw new ConflictError('Only deleted genres can be purged, delete it first', { code: 'NOT_DELETED' });
+  assertIfMatch(ifMatch, genreEtag(genre));
+  const books = await prisma.books.count({ where: { genre_id: id } });
+  if (books > 0) {
+    throw new ConflictError('Genre still has books (including deleted ones)', { code: 'GENRE_IN_USE', details: { book_count: books } });
+  }
+  await prisma.genres.delete({ where: { id } });
+}
+export async function findByName(name: string, db: Db = prisma) {
+  return db.genres.findFirst({
     where: { name, deleted_at: null }
   });
 }
-
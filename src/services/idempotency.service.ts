@@ -0,0 +1,76 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma/client';
+import { ConflictError } from '../utils/errors';
+
+const TTL_HOURS = Number(process.env.IDEMPOTENCY_TTL_HOURS ?? 24);
+// Request yang tertahan in_progress lebih lama dari ini dianggap mati di tengah jalan (misal server restart)
+const STALE_AFTER_MS = 60_000;
+
+export type KeyIdentity = { owner: string; scope: string; key: string };
+export type Claim = { replay: false; id: string } | { replay: true; status: number; body: unknown };
+
+// JSON dengan urutan key yang tetap, supaya { a, b } dan { b, a } menghasilkan fingerprint yang sama
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.keys(value).sort().map((k) => [k, canonical((value as Record<string, unknown>)[k])]));
+  }
+  return value;
+}
+
+export function fingerprint(method: string, path: string, body: unknown) {
+  return createHash('sha256').update(JSON.stringify([method, path, canonical(body ?? null)])).digest('hex');
+}
+
+// Ambil key untuk request ini. Unique (owner, scope, key) memastikan hanya satu request paralel yang diproses;
+// request lain dengan key sama mendapat replay respons tersimpan atau 409.
+export async function claim(identity: KeyIdentity, print: string): Promise<Claim> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      const row = await prisma.idempotency_keys.create({
+        data: { ...identity, fingerprint: print, expires_at: new Date(Date.now() + TTL_HOURS * 60 * 60 * 1000) },
+      });
+      return { replay: false, id: row.id };
+    } catch (err) {
+      if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002')) throw err;
+    }
+
+    const existing = await prisma.idempotency_keys.findUnique({ where: { owner_scope_key: identity } });
+    // Sudah dilepas oleh request sebelumnya (gagal), coba ambil lagi
+    if (!existing) continue;
+
+    const now = Date.now();
+    const stale = existing.status === 'in_progress' && existing.created_at.getTime() < now - STALE_AFTER_MS;
+    if (existing.expires_at.getTime() < now || stale) {
+      await prisma.idempotency_keys.deleteMany({ where: { id: existing.id, status: existing.status } });
+      continue;
+    }
+
+    if (existing.fingerprint !== print) {
+      throw new ConflictError('Idempotency-Key has already been used for a different request', { code: 'IDEMPOTENCY_KEY_REUSED' });
+    }
+    if (existing.status === 'in_progress') {
+      throw new ConflictError('A request with this Idempotency-Key is still being processed, retry later', { code: 'IDEMPOTENCY_IN_PROGRESS' });
+    }
+    return { replay: true, status: existing.response_status ?? 200, body: existing.response_body };
+  }
+  throw new ConflictError('A request with this Idempotency-Key is still being processed, retry later', { code: 'IDEMPOTENCY_IN_PROGRESS' });
+}
+
+export async function complete(id: string, status: number, body: unknown) {
+  await prisma.idempotency_keys.update({
+    where: { id },
+    data: { status: 'completed', response_status: status, response_body: (body ?? Prisma.JsonNull) as Prisma.InputJsonValue },
+  });
+}
+
+// Request gagal tidak disimpan: key dilepas supaya client bisa mencoba lagi dengan key yang sama
+export async function release(id: string) {
+  await prisma.idempotency_keys.deleteMany({ where: { id } });
+}
+
+export async function purgeExpired() {
+  const { count } = await prisma.idempotency_keys.deleteMany({ where: { expires_at: { lt: new Date() } } });
+  return count;
+}
@@ -0,0 +1,209 @@
+import { StockMovementType } from '@prisma/client';
+import { Db, prisma, retryTransaction } from '../prisma/client';
+import { BadRequestError, InsufficientStockError, NotFoundError } from '../utils/errors';
+import { ListQuery, toFindArgs, toPage, toWhere } from '../utils/query';
+import { notifyBackInStock } from './notification.service';
+import { bookInclude } from './book.service';
+
+export type StockChange = {
+  bookId: string;
+  type: StockMovementType;
+  // Positif = stok masuk, negatif = stok keluar
+  quantity: number;
+  actorId?: string;
+  reason?: string;
+  orderId?: string;
+};
+
+// Stok keluar karena pembeli (checkout, reservasi) -> 400 INSUFFICIENT_STOCK; selain itu koreksi admin -> NEGATIVE_STOCK
+const CUSTOMER_MOVEMENTS = new Set<StockMovementType>(['sale', 'reservation']);
+
+// Stok setiap buku sebelum bergerak pertama kali di transaksi yang dibuka stockTransaction
+const stockBefore = new WeakMap<Db, Map<string, number>>();
+
+// Transaksi untuk semua perubahan stok. Notifikasi back-in-stock dinilai sekali di akhir dari stok sebelum dan sesudah
+// seluruh langkah: reservasi yang dilepas lalu langsung dibeli (checkout) atau ditahan ulang (reserve) tidak dianggap
+// stok kembali, jadi pelanggan tidak dikabari (dan subscription-nya tidak terpakai) selama buku tetap habis.
+export function stockTransaction<T>(fn: (tx: Db) => Promise<T>, options?: { timeout?: number }) {
+  return retryTransaction(async (tx) => {
+    const before = new Map<string, number>();
+    stockBefore.set(tx, before);
+    const result = await fn(tx);
+    for (const [bookId, stock] of [...before].sort(([a], [b]) => a.localeCompare(b))) {
+      if (stock > 0) continue;
+      const book = await tx.books.findUniqueOrThrow({ where: { id: bookId }, select: { id: true, title: true, stock_quantity: true } });
+      if (book.stock_quantity > 0) await notifyBackInStock(tx, book);
+    }
+    return result;
+  }, options);
+}
+
+// Satu-satunya jalan untuk mengubah books.stock_quantity: update stok dan catat ledger dalam transaksi yang sama.
+// Stok keluar memakai update bersyarat (stock_quantity >= jumlah) dalam satu statement, bukan cek lalu kurangi:
+// baris buku terkunci sampai commit, jadi dua transaksi yang berebut eksemplar terakhir tidak bisa sama-sama lolos.
+export async function moveStock(tx: Db, change: StockChange) {
+  const before = stockBefore.get(tx);
+  if (!before) throw new Error('moveStock must run inside stockTransaction');
+  const select = { id: true, title: true, stock_quantity: true };
+  let book: { id: string; title: string; stock_quantity: number };
+
+  if (change.quantity < 0) {
+    const taken = await tx.books.updateMany({
+      where: { id: change.bookId, stock_quantity: { gte: -change.quantity } },
+      data: { stock_quantity: { increment: change.quantity } },
+    });
+    const current = await tx.books.findUnique({ where: { id: change.bookId }, select });
+    if (!current) throw new NotFoundError('Book not found', { code: 'BOOK_NOT_FOUND' });
+    if (taken.count === 0) {
+      if (CUSTOMER_MOVEMENTS.has(change.type)) throw new InsufficientStockError(current, current.stock_quantity, -change.quantity);
+      throw new BadRequestError(`Stock of "${current.title}" cannot go below zero`, {
+        code: 'NEGATIVE_STOCK',
+        details: { book_id: current.id, available: current.stock_quantity, change: change.quantity },
+      });
+    }
+    book = current;
+  } else {
+    book = await tx.books.update({
+      where: { id: change.bookId },
+      data: { stock_quantity: { increment: change.quantity } },
+      select,
+    });
+  }
+  if (!before.has(book.id)) before.set(book.id, book.stock_quantity - change.quantity);
+
+  await tx.stock_movements.create({
+    data: {
+      book_id: change.bookId,
+      type: change.type,
+      quantity: change.quantity,
+      balance_after: book.stock_quantity,
+      reason: change.reason,
+      actor_id: change.actorId,
+      order_id: change.orderId,
+    },
+  });
+  return book;
+}
+
+// Set stok ke nilai absolut (PATCH /books, import); dicatat sebagai adjustment sebesar selisihnya
+export async function setStock(tx: Db, bookId: string, target: number, actorId?: string, reason?: string) {
+  const { stock_quantity } = await tx.books.findUniqueOrThrow({ where: { id: bookId }, select: { stock_quantity: true } });
+  if (target === stock_quantity) return;
+  await moveStock(tx, { bookId, type: 'adjustment', quantity: target - stock_quantity, actorId, reason });
+}
+
+async function findBook(bookId: string) {
+  const book = await prisma.books.findFirst({ where: { id: bookId, deleted_at: null } });
+  if (!book) throw new NotFoundError('Book not found', { code: 'BOOK_NOT_FOUND' });
+  return book;
+}
+
+export async function restock(bookId: string, quantity: number, actorId: string, reason?: string) {
+  await findBook(bookId);
+  return stockTransaction((tx) => moveStock(tx, { bookId, type: 'restock', quantity, actorId, reason }));
+}
+
+export async function adjust(bookId: string, quantity: number, actorId: string, reason: string) {
+  await findBook(bookId);
+  return stockTransaction((tx) => moveStock(tx, { bookId, type: 'adjustment', quantity, actorId, reason }));
+}
+
+// Riwayat ledger + rekonsiliasi: ledger_balance (SUM quantity) harus sama dengan stock_quantity
+export async function history(bookId: string, query: ListQuery) {
+  const book = await findBook(bookId);
+  const where = { ...toWhere(query), book_id: bookId };
+
+  const [rows, total, sum] = await Promise.all([
+    prisma.stock_movements.findMany({
+      where,
+      include: { actor: { select: { id: true, username: true, email: true } } },
+      ...toFindArgs(query),
+    }),
+    prisma.stock_movements.count({ where }),
+    prisma.stock_movements.aggregate({ where: { book_id: bookId }, _sum: { quantity: true } }),
+  ]);
+
+  const ledgerBalance = sum._sum.quantity ?? 0;
+  return {
+    ...toPage(query, rows, total),
+    stock: {
+      book_id: book.id,
+      stock_quantity: book.stock_quantity,
+      reorder_threshold: book.reorder_threshold,
+      ledger_balance: ledgerBalance,
+      in_sync: ledgerBalance === book.stock_quantity,
+    },
+  };
+}
+
+// Buku aktif dengan stok <= reorder_threshold masing-masing
+export async function lowStock(query: ListQuery) {
+  const where = {
+    ...toWhere(query),
+    deleted_at: null,
+    stock_quantity: { lte: prisma.books.fields.reorder_threshold },
+  };
+
+  const [rows, total] = await Promise.all([
+    prisma.books.findMany({ where, include: bookInclude, ...toFindArgs(query) }),
+    prisma.books.count({ where }),
+  ]);
+
+  const page = toPage(query, rows, total);
+  return {
+    ...page,
+    items: page.items.map((book) => ({ ...book, shortage: book.reorder_threshold - book.stock_quantity })),
+  };
+}
+
+const RESERVATION_TTL_MINUTES = Number(process.env.RESERVATION_TTL_MINUTES ?? 15);
+
+type Reservation = { id: string; user_id: string; book_id: string; quantity: number };
+
+// Kembalikan stok satu reservasi. deleteMany bersyarat: reservasi yang sudah dilepas transaksi lain
+// (misal sweeper dan checkout bersamaan) tidak dikembalikan dua kali.
+async function releaseOne(tx: Db, reservation: Reservation, reason: string) {
+  const deleted = await tx.stock_reservations.deleteMany({ where: { id: reservation.id } });
+  if (deleted.count === 0) return;
+  await moveStock(tx, { bookId: reservation.book_id, type: 'reservation_release', quantity: reservation.quantity, actorId: reservation.user_id, reason });
+}
+
+// Reservasi yang lewat expires_at dilepas; bookIds membatasi ke buku yang sedang dipesan
+export async function releaseExpired(tx: Db, bookIds?: string[]) {
+  const expired = await tx.stock_reservations.findMany({
+    where: { expires_at: { lt: new Date() }, ...(bookIds && { book_id: { in: bookIds } }) },
+    orderBy: { book_id: 'asc' },
+  });
+  for (const reservation of expired) await releaseOne(tx, reservation, 'Reservation expired');
+  return expired.length;
+}
+
+// Lepas reservasi milik user (semua, atau hanya untuk bookIds)
+export async function releaseReservations(tx: Db, userId: string, reason: string, bookIds?: string[]) {
+  const held = await tx.stock_reservations.findMany({
+    where: { user_id: userId, ...(bookIds && { book_id: { in: bookIds } }) },
+    orderBy: { book_id: 'asc' },
+  });
+  for (const reservation of held) await releaseOne(tx, reservation, reason);
+  return held.length;
+}
+
+// Tahan stok untuk checkout selama RESERVATION_TTL_MINUTES. Reservasi lama user diganti seluruhnya.
+// Buku diproses urut book_id supaya dua reservasi paralel mengunci baris dengan urutan yang sama.
+export async function reserve(tx: Db, userId: string, items: { book_id: string; quantity: number }[]) {
+  const sorted = [...items].sort((a, b) => a.book_id.localeCompare(b.book_id));
+  await releaseReservations(tx, userId, 'Replaced by new reservation');
+  await releaseExpired(tx, sorted.map((i) => i.book_id));
+
+  const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+  for (const item of sorted) {
+    await moveStock(tx, { bookId: item.book_id, type: 'reservation', quantity: -item.quantity, actorId: userId, reason: 'Checkout reservation' });
+    await tx.stock_reservations.create({ data: { user_id: userId, book_id: item.book_id, quantity: item.quantity, expires_at: expiresAt } });
+  }
+  return expiresAt;
+}
+
+// Dijalankan berkala oleh server, supaya stok reservasi yang ditinggal kembali walaupun tidak ada order baru
+export async function sweepExpiredReservations() {
+  return stockTransaction((tx) => releaseExpired(tx));
+}
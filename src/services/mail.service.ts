@@ -0,0 +1,33 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type Mail = { to: string; subject: string; text: string };
+
+// Implementasi lain (SMTP, API provider) cukup memenuhi interface ini
+export interface Mailer {
+  send(mail: Mail): Promise<void>;
+}
+
+export class ConsoleMailer implements Mailer {
+  async send(mail: Mail) {
+    console.log(`[mail] to=${mail.to} subject="${mail.subject}"\n${mail.text}`);
+  }
+}
+
+// Setiap email ditulis sebagai file JSON di folder outbox, berguna untuk development dan testing offline
+export class FileOutboxMailer implements Mailer {
+  constructor(private dir: string) {}
+
+  async send(mail: Mail) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`);
+    await fs.writeFile(file, JSON.stringify({ ...mail, sent_at: new Date().toISOString() }, null, 2));
+  }
+}
+
+let mailer: Mailer = process.env.MAIL_TRANSPORT === 'file'
+  ? new FileOutboxMailer(process.env.MAIL_OUTBOX_DIR ?? 'outbox')
+  : new ConsoleMailer();
+
+export const getMailer = () => mailer;
+export const setMailer = (m: Mailer) => { mailer = m; };
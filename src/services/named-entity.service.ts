@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { Db, prisma, retryTransaction } from '../prisma/client';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { assertIfMatch, concurrentModification, etagOf } from '../utils/etag';
+import { ListQuery, toFindArgs, toPage, toWhere } from '../utils/query';
+import { bookStats } from './report.service';
+
+// Service bersama authors dan publishers: keduanya hanya punya nama (unik tanpa membedakan huruf besar/kecil)
+// dan relasi ke books lewat kolom author_id / publisher_id. author.service dan publisher.service tinggal mengisi config.
+
+type Named = { id: string; name: string; version: number; created_at: Date; updated_at: Date };
+
+// Bagian delegate Prisma yang dipakai; prisma.authors dan prisma.publishers sama-sama memenuhinya
+type NamedDelegate = {
+  findUnique(args: { where: { id: string } }): Promise<Named | null>;
+  findUniqueOrThrow(args: { where: { id: string } }): Promise<Named>;
+  findFirst(args: { where: object }): Promise<Named | null>;
+  findMany(args: object): Promise<(Named & { _count: { books: number } })[]>;
+  count(args: { where: object }): Promise<number>;
+  create(args: { data: { name: string } }): Promise<Named>;
+  updateMany(args: { where: object; data: { name: string } }): Promise<{ count: number }>;
+  deleteMany(args: { where: object }): Promise<{ count: number }>;
+};
+
+export type NamedEntityConfig = {
+  model: 'authors' | 'publishers';
+  // Nama entity di pesan error ("Author") dan awalan kode error ("AUTHOR")
+  entity: string;
+  code: string;
+  // Kolom books yang menunjuk ke entity ini
+  bookField: 'author_id' | 'publisher_id';
+};
+
+// Spasi di ujung dibuang dan spasi ganda dirapikan, sama dengan deduplikasi di migrasi
+export const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+export function namedEntityService({ model, entity, code, bookField }: NamedEntityConfig) {
+  const delegate = (db: Db) => db[model] as unknown as NamedDelegate;
+  const noun = entity.toLowerCase();
+  const duplicate = () => new ConflictError(`${entity} name already exists`, { code: `DUPLICATE_${code}` });
+  const notFound = (message = `${entity} not found`) => new NotFoundError(message, { code: `${code}_NOT_FOUND` });
+  const booksOf = (id: string): Prisma.booksWhereInput => ({ [bookField]: id });
+
+  const etag = (row: { version: number }) => etagOf(row.version);
+
+  async function find(id: string) {
+    const row = await delegate(prisma).findUnique({ where: { id } });
+    if (!row) throw notFound();
+    return row;
+  }
+
+  // Nama dibandingkan tanpa membedakan huruf besar/kecil, sama dengan indeks unik lower(name)
+  async function findByName(name: string, db: Db = prisma) {
+    return delegate(db).findFirst({ where: { name: { equals: normalizeName(name), mode: 'insensitive' } } });
+  }
+
+  // db bisa diisi client $transaction (import katalog)
+  async function create(input: { name: string }, db: Db = prisma) {
+    if (await findByName(input.name, db)) throw duplicate();
+    return delegate(db).create({ data: { name: normalizeName(input.name) } });
+  }
+
+  async function list(query: ListQuery) {
+    const where = {
+      ...toWhere(query),
+      ...(query.search && { name: { contains: query.search, mode: 'insensitive' as const } }),
+    };
+    const [rows, total] = await Promise.all([
+      delegate(prisma).findMany({
+        where,
+        include: { _count: { select: { books: { where: { deleted_at: null } } } } },
+        ...toFindArgs(query),
+      }),
+      delegate(prisma).count({ where }),
+    ]);
+    return toPage(query, rows, total);
+  }
+
+  // Statistik penjualan semua bukunya (order paid, shipped, completed). Dipisah dari detail karena berubah setiap
+  // ada penjualan tanpa menaikkan version, jadi tidak boleh ikut respons yang memakai ETag version
+  async function statistics(id: string) {
+    await find(id);
+    return bookStats({ [bookField]: id });
+  }
+
+  async function update(id: string, input: { name: string }, ifMatch?: string) {
+    const row = await find(id);
+    assertIfMatch(ifMatch, etag(row));
+
+    const existing = await findByName(input.name);
+    if (existing && existing.id !== id) throw duplicate();
+
+    const updated = await delegate(prisma).updateMany({
+      where: { id, ...(ifMatch && { version: row.version }) },
+      data: { name: normalizeName(input.name) },
+    });
+    if (updated.count === 0) throw concurrentModification();
+    return delegate(prisma).findUniqueOrThrow({ where: { id } });
+  }
+
+  // Entity yang masih punya buku (termasuk yang terhapus) hanya bisa dihapus jika bukunya dipindah (reassignTo),
+  // misalnya untuk menggabungkan dua ejaan nama yang sama
+  async function remove(id: string, reassignTo?: string, ifMatch?: string) {
+    const row = await find(id);
+    assertIfMatch(ifMatch, etag(row));
+
+    const books = await prisma.books.count({ where: booksOf(id) });
+    if (books > 0 && !reassignTo) {
+      throw new ConflictError(`${entity} still has books, pass reassign_to to move them to another ${noun}`, {
+        code: `${code}_IN_USE`,
+        details: { book_count: books },
+      });
+    }
+    if (reassignTo) {
+      if (reassignTo === id) throw new BadRequestError(`Cannot reassign books to the ${noun} being deleted`, { code: 'INVALID_REASSIGN_TARGET' });
+      if (!(await delegate(prisma).findUnique({ where: { id: reassignTo } }))) throw notFound(`Reassignment target ${noun} not found`);
+    }
+
+    return retryTransaction(async (tx) => {
+      const moved = reassignTo
+        ? await tx.books.updateMany({ where: booksOf(id), data: { [bookField]: reassignTo } })
+        : { count: 0 };
+      const deleted = await delegate(tx).deleteMany({ where: { id, ...(ifMatch && { version: row.version }) } });
+      if (deleted.count === 0) throw concurrentModification();
+      return { id, reassigned_to: reassignTo ?? null, reassigned_books: moved.count };
+    });
+  }
+
+  return { etag, find, findByName, create, list, statistics, update, remove };
+}
@@ -0,0 +1,116 @@
+import { Prisma } from '@prisma/client';
+import { Db, prisma } from '../prisma/client';
+import { NotFoundError } from '../utils/errors';
+import { ListQuery, toFindArgs, toPage, toWhere } from '../utils/query';
+import { getMailer } from './mail.service';
+
+const OUTBOX_BATCH_SIZE = 50;
+const OUTBOX_MAX_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS ?? 5);
+// Baris yang sedang diproses ditahan selama ini; jika worker mati di tengah jalan, baris diambil ulang setelahnya
+const OUTBOX_LEASE_MS = 5 * 60 * 1000;
+
+const outboxInclude = {
+  notification: { include: { user: { select: { email: true, deleted_at: true, disabled_at: true } } } },
+} satisfies Prisma.notification_outboxInclude;
+type OutboxRow = Prisma.notification_outboxGetPayload<{ include: typeof outboxInclude }>;
+
+// Dipanggil stockTransaction jika stok buku di akhir transaksi positif padahal sebelumnya 0, di transaksi yang sama:
+// notifikasi dan outbox hanya ada jika stok benar-benar di-commit. Subscription dipakai sekali lalu dihapus.
+export async function notifyBackInStock(tx: Db, book: { id: string; title: string; stock_quantity: number }) {
+  const subscriptions = await tx.stock_subscriptions.findMany({ where: { book_id: book.id, book: { deleted_at: null } } });
+  if (subscriptions.length === 0) return 0;
+
+  for (const { user_id } of subscriptions) {
+    await tx.notifications.create({
+      data: {
+        user_id,
+        type: 'back_in_stock',
+        title: `"${book.title}" is back in stock`,
+        body: `"${book.title}" is available again (${book.stock_quantity} in stock).`,
+        data: { book_id: book.id },
+        outbox: { create: { channel: 'email' } },
+      },
+    });
+  }
+  await tx.stock_subscriptions.deleteMany({ where: { id: { in: subscriptions.map((s) => s.id) } } });
+  return subscriptions.length;
+}
+
+// Filter read=true/false diterjemahkan ke read_at
+export async function list(userId: string, query: ListQuery) {
+  const { read, ...filters } = query.filters;
+  const where: Prisma.notificationsWhereInput = {
+    ...toWhere({ ...query, filters }),
+    ...(read && { read_at: read.eq ? { not: null } : null }),
+    user_id: userId,
+  };
+  const [rows, total, unread] = await Promise.all([
+    prisma.notifications.findMany({ where, ...toFindArgs(query) }),
+    prisma.notifications.count({ where }),
+    prisma.notifications.count({ where: { user_id: userId, read_at: null } }),
+  ]);
+  return { ...toPage(query, rows, total), unread };
+}
+
+// Notifikasi milik user lain diperlakukan sebagai tidak ditemukan
+export async function setRead(id: string, userId: string, read: boolean) {
+  const notification = await prisma.notifications.findUnique({ where: { id } });
+  if (!notification || notification.user_id !== userId) {
+    throw new NotFoundError('Notification not found', { code: 'NOTIFICATION_NOT_FOUND' });
+  }
+  if (Boolean(notification.read_at) === read) return notification;
+  return prisma.notifications.update({ where: { id }, data: { read_at: read ? new Date() : null } });
+}
+
+export async function readAll(userId: string) {
+  const updated = await prisma.notifications.updateMany({ where: { user_id: userId, read_at: null }, data: { read_at: new Date() } });
+  return { updated: updated.count };
+}
+
+async function deliver({ notification }: OutboxRow) {
+  // Akun yang dihapus/dinonaktifkan tidak dikirimi email; notifikasi in-app tetap ada
+  if (notification.user.deleted_at || notification.user.disabled_at) return;
+  await getMailer().send({ to: notification.user.email, subject: notification.title, text: notification.body });
+}
+
+// Ambil satu batch baris pending yang sudah jatuh tempo. Setiap baris diklaim dengan update bersyarat
+// (available_at masih lewat), jadi beberapa instance worker tidak mengirim baris yang sama.
+// Gagal -> dicoba lagi dengan backoff 1, 2, 4, ... menit; setelah OUTBOX_MAX_ATTEMPTS ditandai failed.
+export async function processOutbox() {
+  const now = new Date();
+  const due = await prisma.notification_outbox.findMany({
+    where: { status: 'pending', available_at: { lte: now } },
+    orderBy: { available_at: 'asc' },
+    take: OUTBOX_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let sent = 0;
+  let failed = 0;
+  for (const { id } of due) {
+    const claimed = await prisma.notification_outbox.updateMany({
+      where: { id, status: 'pending', available_at: { lte: now } },
+      data: { available_at: new Date(Date.now() + OUTBOX_LEASE_MS), attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) continue;
+
+    const row = await prisma.notification_outbox.findUniqueOrThrow({ where: { id }, include: outboxInclude });
+    try {
+      await deliver(row);
+      await prisma.notification_outbox.update({ where: { id }, data: { status: 'sent', sent_at: new Date(), last_error: null } });
+      sent++;
+    } catch (err) {
+      const giveUp = row.attempts >= OUTBOX_MAX_ATTEMPTS;
+      await prisma.notification_outbox.update({
+        where: { id },
+        data: {
+          status: giveUp ? 'failed' : 'pending',
+          available_at: new Date(Date.now() + 2 ** (row.attempts - 1) * 60 * 1000),
+          last_error: err instanceof Error ? err.message : String(err),
+        },
+      });
+      failed++;
+    }
+  }
+  return { sent, failed };
+}
@@ -0,0 +1,224 @@
+import { DiscountType, Prisma } from '@prisma/client';
+import { Db, prisma } from '../prisma/client';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { ListQuery, toFindArgs, toPage, toWhere } from '../utils/query';
+
+export type PromotionInput = {
+  code: string;
+  description?: string | null;
+  type: DiscountType;
+  value: number;
+  min_order_amount?: number | null;
+  starts_at?: Date | null;
+  ends_at?: Date | null;
+  usage_limit?: number | null;
+  per_user_limit?: number | null;
+  active?: boolean;
+  genre_ids?: string[];
+  book_ids?: string[];
+};
+
+// Baris order/cart yang dinilai promo; harga selalu harga live dari books.
+// genre_ids = genre utama + genre tambahan buku
+export type PromotionLine = { book_id: string; genre_ids: string[]; line_total: Prisma.Decimal };
+
+export const promotionInclude = {
+  genres: { select: { id: true, name: true } },
+  books: { select: { id: true, title: true } },
+} satisfies Prisma.promotionsInclude;
+
+const duplicateCode = () => new ConflictError('Promotion code already exists', { code: 'DUPLICATE_PROMOTION_CODE' });
+const usageLimitReached = () => new ConflictError('Promotion usage limit has been reached', { code: 'USAGE_LIMIT_REACHED' });
+const userLimitReached = (limit: number) =>
+  new ConflictError('You have already used this promotion the maximum number of times', { code: 'USER_LIMIT_REACHED', details: { per_user_limit: limit } });
+const normalize = (code: string) => code.trim().toUpperCase();
+
+// Aturan yang melibatkan lebih dari satu field dicek setelah digabung dengan data lama (PATCH)
+function checkRules(data: Pick<PromotionInput, 'type' | 'value' | 'starts_at' | 'ends_at'>) {
+  if (data.type === 'percentage' && data.value > 100) {
+    throw new BadRequestError('Percentage discount cannot exceed 100', { code: 'INVALID_PROMOTION_VALUE' });
+  }
+  if (data.starts_at && data.ends_at && data.ends_at <= data.starts_at) {
+    throw new BadRequestError('ends_at must be after starts_at', { code: 'INVALID_PROMOTION_PERIOD' });
+  }
+}
+
+// Scope hanya boleh menunjuk genre/buku aktif
+async function checkScope(genreIds: string[] = [], bookIds: string[] = []) {
+  const [genres, books] = await Promise.all([
+    prisma.genres.findMany({ where: { id: { in: genreIds }, deleted_at: null }, select: { id: true } }),
+    prisma.books.findMany({ where: { id: { in: bookIds }, deleted_at: null }, select: { id: true } }),
+  ]);
+  const missingGenres = genreIds.filter((id) => !genres.some((g) => g.id === id));
+  if (missingGenres.length) throw new NotFoundError('Genre not found', { code: 'GENRE_NOT_FOUND', details: { genre_ids: missingGenres } });
+  const missingBooks = bookIds.filter((id) => !books.some((b) => b.id === id));
+  if (missingBooks.length) throw new NotFoundError('Book not found', { code: 'BOOK_NOT_FOUND', details: { book_ids: missingBooks } });
+}
+
+const connect = (ids?: string[]) => (ids ? { set: ids.map((id) => ({ id })) } : undefined);
+
+export async function create(input: PromotionInput) {
+  const { genre_ids, book_ids, ...fields } = input;
+  const code = normalize(fields.code);
+  checkRules(fields);
+  if (await prisma.promotions.findUnique({ where: { code } })) throw duplicateCode();
+  await checkScope(genre_ids, book_ids);
+
+  return prisma.promotions.create({
+    data: {
+      ...fields,
+      code,
+      genres: { connect: (genre_ids ?? []).map((id) => ({ id })) },
+      books: { connect: (book_ids ?? []).map((id) => ({ id })) },
+    },
+    include: promotionInclude,
+  });
+}
+
+export async function list(query: ListQuery) {
+  const where = toWhere(query);
+  const [rows, total] = await Promise.all([
+    prisma.promotions.findMany({ where, include: promotionInclude, ...toFindArgs(query) }),
+    prisma.promotions.count({ where }),
+  ]);
+  return toPage(query, rows, total);
+}
+
+async function findPromotion(id: string) {
+  const promotion = await prisma.promotions.findUnique({ where: { id }, include: promotionInclude });
+  if (!promotion) throw new NotFoundError('Promotion not found', { code: 'PROMOTION_NOT_FOUND' });
+  return promotion;
+}
+
+export async function detail(id: string) {
+  const promotion = await findPromotion(id);
+  const redeemed = await prisma.promotion_redemptions.aggregate({
+    where: { promotion_id: id },
+    _count: true,
+    _sum: { discount_amount: true },
+  });
+  return {
+    ...promotion,
+    redemptions: { count: redeemed._count, total_discount: redeemed._sum.discount_amount ?? new Prisma.Decimal(0) },
+  };
+}
+
+// genre_ids / book_ids (jika dikirim) menggantikan scope lama; array kosong = berlaku untuk semua buku
+export async function update(id: string, input: Partial<PromotionInput>) {
+  const current = await findPromotion(id);
+  const { genre_ids, book_ids, ...fields } = input;
+  const code = fields.code === undefined ? undefined : normalize(fields.code);
+
+  checkRules({
+    type: fields.type ?? current.type,
+    value: fields.value ?? current.value.toNumber(),
+    starts_at: fields.starts_at === undefined ? current.starts_at : fields.starts_at,
+    ends_at: fields.ends_at === undefined ? current.ends_at : fields.ends_at,
+  });
+  if (code && code !== current.code && (await prisma.promotions.findUnique({ where: { code } }))) throw duplicateCode();
+  await checkScope(genre_ids, book_ids);
+
+  return prisma.promotions.update({
+    where: { id },
+    data: { ...fields, code, genres: connect(genre_ids), books: connect(book_ids) },
+    include: promotionInclude,
+  });
+}
+
+// Promo yang sudah pernah dipakai tidak dihapus (riwayat batas per user ikut hilang); nonaktifkan saja lewat PATCH
+export async function remove(id: string) {
+  await findPromotion(id);
+  const used = await prisma.promotion_redemptions.count({ where: { promotion_id: id } });
+  if (used > 0) {
+    throw new ConflictError('Promotion has been redeemed, set active to false instead', {
+      code: 'PROMOTION_IN_USE',
+      details: { redemptions: used },
+    });
+  }
+  await prisma.promotions.delete({ where: { id } });
+}
+
+// Validasi kode terhadap baris order/cart dan hitung diskonnya. Tidak menulis apa pun;
+// pemakaian baru dicatat oleh redeem() di transaksi yang sama dengan pembuatan order.
+export async function evaluate(db: Db, rawCode: string, userId: string, lines: PromotionLine[]) {
+  const code = normalize(rawCode);
+  const promotion = await db.promotions.findUnique({ where: { code }, include: { genres: { select: { id: true } }, books: { select: { id: true } } } });
+  if (!promotion) throw new NotFoundError(`Promotion code ${code} not found`, { code: 'PROMOTION_NOT_FOUND' });
+
+  const now = new Date();
+  if (!promotion.active) throw new BadRequestError('Promotion code is no longer active', { code: 'PROMOTION_INACTIVE' });
+  if (promotion.starts_at && promotion.starts_at > now) {
+    throw new BadRequestError('Promotion has not started yet', { code: 'PROMOTION_NOT_STARTED', details: { starts_at: promotion.starts_at } });
+  }
+  if (promotion.ends_at && promotion.ends_at < now) {
+    throw new BadRequestError('Promotion has expired', { code: 'PROMOTION_EXPIRED', details: { ends_at: promotion.ends_at } });
+  }
+  if (promotion.usage_limit !== null && promotion.used_count >= promotion.usage_limit) {
+    throw usageLimitReached();
+  }
+  if (promotion.per_user_limit !== null) {
+    const used = await db.promotion_redemptions.count({ where: { promotion_id: promotion.id, user_id: userId } });
+    if (used >= promotion.per_user_limit) {
+      throw userLimitReached(promotion.per_user_limit);
+    }
+  }
+
+  const subtotal = lines.reduce((sum, l) => sum.add(l.line_total), new Prisma.Decimal(0));
+  if (promotion.min_order_amount && subtotal.lessThan(promotion.min_order_amount)) {
+    throw new BadRequestError(`Minimum order for this promotion is ${promotion.min_order_amount}`, {
+      code: 'MIN_ORDER_NOT_MET',
+      details: { min_order_amount: promotion.min_order_amount, subtotal },
+    });
+  }
+
+  // Tanpa scope = semua buku; dengan scope, cukup cocok salah satu: bukunya atau salah satu genrenya
+  const scoped = promotion.genres.length > 0 || promotion.books.length > 0;
+  const eligible = lines
+    .filter((l) => !scoped || promotion.books.some((b) => b.id === l.book_id) || promotion.genres.some((g) => l.genre_ids.includes(g.id)))
+    .reduce((sum, l) => sum.add(l.line_total), new Prisma.Decimal(0));
+  if (eligible.isZero()) {
+    throw new BadRequestError('Promotion does not apply to any item in this order', { code: 'PROMOTION_NOT_APPLICABLE' });
+  }
+
+  // Diskon tidak pernah melebihi subtotal buku yang memenuhi syarat
+  const discount = promotion.type === 'percentage'
+    ? eligible.mul(promotion.value).div(100).toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP)
+    : Prisma.Decimal.min(promotion.value, eligible);
+
+  return { promotion, subtotal, eligible_subtotal: eligible, discount };
+}
+
+// Catat pemakaian. Increment bersyarat mengunci baris promotions, jadi redeem paralel untuk kode yang sama
+// antre di sini; count per user setelahnya sudah melihat redemption yang di-commit request sebelumnya.
+export async function redeem(tx: Db, promotion: { id: string; per_user_limit: number | null }, userId: string, orderId: string, discount: Prisma.Decimal) {
+  const claimed = await tx.promotions.updateMany({
+    where: {
+      id: promotion.id,
+      OR: [{ usage_limit: null }, { used_count: { lt: tx.promotions.fields.usage_limit } }],
+    },
+    data: { used_count: { increment: 1 } },
+  });
+  if (claimed.count === 0) throw usageLimitReached();
+
+  if (promotion.per_user_limit !== null) {
+    const used = await tx.promotion_redemptions.count({ where: { promotion_id: promotion.id, user_id: userId } });
+    if (used >= promotion.per_user_limit) {
+      throw userLimitReached(promotion.per_user_limit);
+    }
+  }
+
+  await tx.promotion_redemptions.create({
+    data: { promotion_id: promotion.id, user_id: userId, order_id: orderId, discount_amount: discount },
+  });
+}
+
+// Order dibatalkan: kuota kode dikembalikan. discount_amount di orders tetap sebagai riwayat.
+export async function release(tx: Db, orderId: string) {
+  const redemption = await tx.promotion_redemptions.findUnique({ where: { order_id: orderId } });
+  if (!redemption) return;
+  await tx.promotion_redemptions.delete({ where: { id: redemption.id } });
+  await tx.promotions.updateMany({
+    where: { id: redemption.promotion_id, used_count: { gt: 0 } },
+    data: { used_count: { decrement: 1 } },
+  });
+}
@@ -0,0 +1,9 @@
+import { namedEntityService } from './named-entity.service';
+
+// Aturan sama dengan authors; lihat named-entity.service
+const publishers = namedEntityService({ model: 'publishers', entity: 'Publisher', code: 'PUBLISHER', bookField: 'publisher_id' });
+
+export const { findByName, create, list, statistics, update, remove } = publishers;
+export const findPublisher = publishers.find;
+export const detail = publishers.find;
+export const publisherEtag = publishers.etag;
@@ -0,0 +1,52 @@
+export type Hit = { count: number; resetAt: number };
+
+// Counter fixed window per key. Implementasi shared (Redis: INCR + PEXPIRE, GET + PTTL) cukup memenuhi interface ini,
+// supaya limit tetap berlaku jika API dijalankan di beberapa instance. Juga dipakai lockout login untuk email
+// yang tidak terdaftar (auth.service).
+export interface RateLimitStore {
+  // Tambah satu hit; window baru dimulai jika window lama sudah lewat
+  hit(key: string, windowMs: number): Promise<Hit>;
+  // Counter window yang sedang berjalan tanpa menambah hit; undefined jika belum ada atau sudah lewat
+  get(key: string): Promise<Hit | undefined>;
+  reset(key: string): Promise<void>;
+}
+
+// Default: counter di memori proses, hilang saat restart dan tidak dibagi antar instance
+export class MemoryStore implements RateLimitStore {
+  private hits = new Map<string, Hit>();
+  private nextSweep = 0;
+
+  async hit(key: string, windowMs: number) {
+    const now = Date.now();
+    this.sweep(now);
+    const current = this.hits.get(key);
+    if (current && current.resetAt > now) {
+      current.count++;
+      return { ...current };
+    }
+    const fresh = { count: 1, resetAt: now + windowMs };
+    this.hits.set(key, fresh);
+    return { ...fresh };
+  }
+
+  async get(key: string) {
+    const current = this.hits.get(key);
+    return current && current.resetAt > Date.now() ? { ...current } : undefined;
+  }
+
+  async reset(key: string) {
+    this.hits.delete(key);
+  }
+
+  // Key yang window-nya sudah lewat dibuang paling sering sekali per menit, supaya Map tidak terus membesar
+  private sweep(now: number) {
+    if (now < this.nextSweep) return;
+    this.nextSweep = now + 60 * 1000;
+    for (const [key, hit] of this.hits) if (hit.resetAt <= now) this.hits.delete(key);
+  }
+}
+
+let store: RateLimitStore = new MemoryStore();
+
+export const getRateLimitStore = () => store;
+export const setRateLimitStore = (s: RateLimitStore) => { store = s; };
@@ -0,0 +1,215 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma/client';
+import { REVENUE_STATUSES } from './transaction.service';
+
+export type Interval = 'day' | 'week' | 'month';
+export type Metric = 'units' | 'revenue';
+export type DateRange = { startDate?: Date; endDate?: Date };
+
+// Periode default untuk perbandingan jika startDate tidak diisi
+const DEFAULT_PERIOD_DAYS = 30;
+
+// Order yang dihitung sebagai penjualan: sudah dibayar (REVENUE_STATUSES) dan di dalam rentang tanggal
+function orderWhere(range: DateRange) {
+  const conditions = [Prisma.sql`o.status::text IN (${Prisma.join(REVENUE_STATUSES)})`];
+  if (range.startDate) conditions.push(Prisma.sql`o.created_at >= ${range.startDate}`);
+  if (range.endDate) conditions.push(Prisma.sql`o.created_at <= ${range.endDate}`);
+  return Prisma.join(conditions, ' AND ');
+}
+
+const metricColumn = (metric: Metric) => Prisma.raw(metric === 'units' ? 'units' : 'revenue');
+
+// Revenue dan unit per bucket waktu; bucket tanpa penjualan tetap muncul dengan nilai 0.
+// created_at disimpan dalam UTC, bucket dihitung di zona waktu tz.
+export async function timeSeries(range: DateRange, interval: Interval, tz: string) {
+  const bounds = await prisma.$queryRaw<{ range_start: Date | null; range_end: Date | null }[]>`
+    SELECT COALESCE(${range.startDate ?? null}::timestamp, MIN(o.created_at)) AS range_start,
+           COALESCE(${range.endDate ?? null}::timestamp, now() AT TIME ZONE 'UTC') AS range_end
+    FROM orders o WHERE ${orderWhere(range)}`;
+  const { range_start: start, range_end: end } = bounds[0] ?? {};
+  if (!start || !end) return [];
+
+  const unit = Prisma.raw(`'${interval}'`);
+  const local = (column: Prisma.Sql) => Prisma.sql`((${column}) AT TIME ZONE 'UTC' AT TIME ZONE ${tz})`;
+
+  const rows = await prisma.$queryRaw<{ period: Date; orders: number; units: number; revenue: number; discounts: number }[]>`
+    WITH buckets AS (
+      SELECT generate_series(
+        date_trunc(${unit}, ${local(Prisma.sql`${start}::timestamp`)}),
+        date_trunc(${unit}, ${local(Prisma.sql`${end}::timestamp`)}),
+        ${Prisma.raw(`'1 ${interval}'`)}::interval
+      ) AS period
+    ),
+    order_totals AS (
+      SELECT date_trunc(${unit}, ${local(Prisma.sql`o.created_at`)}) AS period,
+             COUNT(*)::int AS orders, SUM(o.total_amount)::float8 AS revenue,
+             SUM(o.discount_amount)::float8 AS discounts
+      FROM orders o WHERE ${orderWhere(range)}
+      GROUP BY 1
+    ),
+    unit_totals AS (
+      SELECT date_trunc(${unit}, ${local(Prisma.sql`o.created_at`)}) AS period, SUM(oi.quantity)::int AS units
+      FROM order_items oi JOIN orders o ON o.id = oi.order_id
+      WHERE ${orderWhere(range)}
+      GROUP BY 1
+    )
+    SELECT b.period,
+           COALESCE(ot.orders, 0) AS orders,
+           COALESCE(ut.units, 0) AS units,
+           COALESCE(ot.revenue, 0) AS revenue,
+           COALESCE(ot.discounts, 0) AS discounts
+    FROM buckets b
+    LEFT JOIN order_totals ot ON ot.period = b.period
+    LEFT JOIN unit_totals ut ON ut.period = b.period
+    ORDER BY b.period`;
+
+  return rows;
+}
+
+// Buku milik satu author dan/atau publisher saja (filter author_id / publisher_id di report)
+export type BookScope = { author_id?: string; publisher_id?: string };
+
+function scopeWhere(scope: BookScope) {
+  const conditions: Prisma.Sql[] = [];
+  if (scope.author_id) conditions.push(Prisma.sql` AND b.author_id = ${scope.author_id}`);
+  if (scope.publisher_id) conditions.push(Prisma.sql` AND b.publisher_id = ${scope.publisher_id}`);
+  return conditions.length ? Prisma.join(conditions, '') : Prisma.empty;
+}
+
+// Revenue per buku/author/publisher/genre dihitung dari harga item (sebelum diskon promo level order);
+// revenue di totals/timeSeries memakai orders.total_amount yang sudah dipotong diskon
+export async function topBooks(range: DateRange, limit: number, metric: Metric, scope: BookScope = {}) {
+  return prisma.$queryRaw<{ book_id: string; title: string; author: string; publisher: string; units: number; revenue: number }[]>`
+    SELECT b.id AS book_id, b.title, a.name AS author, p.name AS publisher,
+           SUM(oi.quantity)::int AS units, SUM(oi.unit_price * oi.quantity)::float8 AS revenue
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN books b ON b.id = oi.book_id
+    JOIN authors a ON a.id = b.author_id
+    JOIN publishers p ON p.id = b.publisher_id
+    WHERE ${orderWhere(range)}${scopeWhere(scope)}
+    GROUP BY b.id, b.title, a.name, p.name
+    ORDER BY ${metricColumn(metric)} DESC, b.title ASC
+    LIMIT ${limit}`;
+}
+
+export async function topAuthors(range: DateRange, limit: number, metric: Metric) {
+  return prisma.$queryRaw<{ author_id: string; author: string; books: number; units: number; revenue: number }[]>`
+    SELECT a.id AS author_id, a.name AS author, COUNT(DISTINCT b.id)::int AS books,
+           SUM(oi.quantity)::int AS units, SUM(oi.unit_price * oi.quantity)::float8 AS revenue
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN books b ON b.id = oi.book_id
+    JOIN authors a ON a.id = b.author_id
+    WHERE ${orderWhere(range)}
+    GROUP BY a.id, a.name
+    ORDER BY ${metricColumn(metric)} DESC, a.name ASC
+    LIMIT ${limit}`;
+}
+
+export async function topPublishers(range: DateRange, limit: number, metric: Metric) {
+  return prisma.$queryRaw<{ publisher_id: string; publisher: string; books: number; units: number; revenue: number }[]>`
+    SELECT p.id AS publisher_id, p.name AS publisher, COUNT(DISTINCT b.id)::int AS books,
+           SUM(oi.quantity)::int AS units, SUM(oi.unit_price * oi.quantity)::float8 AS revenue
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN books b ON b.id = oi.book_id
+    JOIN publishers p ON p.id = b.publisher_id
+    WHERE ${orderWhere(range)}
+    GROUP BY p.id, p.name
+    ORDER BY ${metricColumn(metric)} DESC, p.name ASC
+    LIMIT ${limit}`;
+}
+
+// Ringkasan penjualan semua buku milik satu author/publisher (GET /authors/:id, GET /publishers/:id)
+export async function bookStats(scope: BookScope, range: DateRange = {}) {
+  const [row] = await prisma.$queryRaw<{ books: number; orders: number; units: number; revenue: number }[]>`
+    SELECT (SELECT COUNT(*)::int FROM books b WHERE b.deleted_at IS NULL${scopeWhere(scope)}) AS books,
+           COUNT(DISTINCT o.id)::int AS orders,
+           COALESCE(SUM(oi.quantity), 0)::int AS units,
+           COALESCE(SUM(oi.unit_price * oi.quantity), 0)::float8 AS revenue
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN books b ON b.id = oi.book_id
+    WHERE ${orderWhere(range)}${scopeWhere(scope)}`;
+  return row;
+}
+
+// Semua genre aktif ikut tampil, termasuk yang belum terjual (units = 0).
+// Penjualan dihitung ke genre utama buku saja, supaya revenue_share tetap berjumlah 100%.
+export async function genreBreakdown(range: DateRange, scope: BookScope = {}) {
+  const rows = await prisma.$queryRaw<{ genre_id: string; genre_name: string; units: number; revenue: number }[]>`
+    SELECT g.id AS genre_id, g.name AS genre_name,
+           COALESCE(SUM(oi.quantity), 0)::int AS units,
+           COALESCE(SUM(oi.unit_price * oi.quantity), 0)::float8 AS revenue
+    FROM genres g
+    LEFT JOIN books b ON b.genre_id = g.id${scopeWhere(scope)}
+    LEFT JOIN (order_items oi JOIN orders o ON o.id = oi.order_id AND ${orderWhere(range)}) ON oi.book_id = b.id
+    WHERE g.deleted_at IS NULL
+    GROUP BY g.id, g.name
+    ORDER BY revenue DESC, g.name ASC`;
+
+  const total = rows.reduce((sum, r) => sum + r.revenue, 0);
+  return rows.map((r) => ({ ...r, revenue_share: total ? Math.round((r.revenue / total) * 10000) / 100 : 0 }));
+}
+
+// Lifetime value per customer (dalam rentang tanggal jika diisi)
+export async function customerValue(range: DateRange, limit: number) {
+  return prisma.$queryRaw<{
+    user_id: string; username: string | null; email: string; orders: number; revenue: number;
+    average_order_value: number; first_order_at: Date; last_order_at: Date;
+  }[]>`
+    SELECT u.id AS user_id, u.username, u.email,
+           COUNT(o.id)::int AS orders,
+           SUM(o.total_amount)::float8 AS revenue,
+           AVG(o.total_amount)::float8 AS average_order_value,
+           MIN(o.created_at) AS first_order_at,
+           MAX(o.created_at) AS last_order_at
+    FROM orders o JOIN users u ON u.id = o.user_id
+    WHERE ${orderWhere(range)}
+    GROUP BY u.id, u.username, u.email
+    ORDER BY revenue DESC, u.email ASC
+    LIMIT ${limit}`;
+}
+
+export async function totals(range: DateRange) {
+  const [row] = await prisma.$queryRaw<{ orders: number; units: number; revenue: number; discounts: number; average_order_value: number }[]>`
+    SELECT COUNT(*)::int AS orders,
+           COALESCE(SUM(i.units), 0)::int AS units,
+           COALESCE(SUM(o.total_amount), 0)::float8 AS revenue,
+           COALESCE(SUM(o.discount_amount), 0)::float8 AS discounts,
+           COALESCE(AVG(o.total_amount), 0)::float8 AS average_order_value
+    FROM orders o
+    LEFT JOIN (SELECT order_id, SUM(quantity) AS units FROM order_items GROUP BY order_id) i ON i.order_id = o.id
+    WHERE ${orderWhere(range)}`;
+  return row;
+}
+
+const change = (current: number, previous: number) =>
+  previous === 0 ? null : Math.round(((current - previous) / previous) * 10000) / 100;
+
+// Periode sekarang dibandingkan dengan periode sebelumnya yang panjangnya sama
+export async function summary(range: DateRange) {
+  const end = range.endDate ?? new Date();
+  const start = range.startDate ?? new Date(end.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+  const length = end.getTime() - start.getTime();
+  const previousStart = new Date(start.getTime() - length);
+  const previousEnd = new Date(start.getTime() - 1);
+
+  const [current, previous] = await Promise.all([
+    totals({ startDate: start, endDate: end }),
+    totals({ startDate: previousStart, endDate: previousEnd }),
+  ]);
+
+  return {
+    current: { start, end, ...current },
+    previous: { start: previousStart, end: previousEnd, ...previous },
+    change_pct: {
+      orders: change(current.orders, previous.orders),
+      units: change(current.units, previous.units),
+      revenue: change(current.revenue, previous.revenue),
+      discounts: change(current.discounts, previous.discounts),
+      average_order_value: change(current.average_order_value, previous.average_order_value),
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import { Prisma, ReviewStatus } from '@prisma/client';
+import { Db, prisma, retryTransaction } from '../prisma/client';
+import { ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { ListQuery, toFindArgs, toPage, toWhere } from '../utils/query';
+
+export type ReviewInput = { rating: number; comment: string };
+
+const reviewInclude = {
+  user: { select: { id: true, username: true } },
+} satisfies Prisma.reviewsInclude;
+
+async function findBook(bookId: string) {
+  const book = await prisma.books.findFirst({ where: { id: bookId, deleted_at: null }, select: { id: true } });
+  if (!book) throw new NotFoundError('Book not found', { code: 'BOOK_NOT_FOUND' });
+  return book;
+}
+
+// Jika ownerId diisi, review milik user lain diperlakukan sebagai tidak ditemukan
+async function findReview(id: string, ownerId?: string) {
+  const review = await prisma.reviews.findUnique({ where: { id } });
+  if (!review || (ownerId && review.user_id !== ownerId)) {
+    throw new NotFoundError('Review not found', { code: 'REVIEW_NOT_FOUND' });
+  }
+  return review;
+}
+
+// Hitung ulang books.average_rating dan review_count dari review published.
+// Baris buku dikunci lebih dulu (FOR UPDATE), jadi perubahan review paralel untuk buku yang sama antre
+// dan agregat selalu dihitung dari data yang sudah di-commit transaksi sebelumnya.
+async function withRatingRefresh<T>(bookId: string, fn: (tx: Db) => Promise<T>) {
+  return retryTransaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM books WHERE id = ${bookId} FOR UPDATE`;
+    const result = await fn(tx);
+    const stats = await tx.reviews.aggregate({
+      where: { book_id: bookId, status: 'published' },
+      _avg: { rating: true },
+      _count: true,
+    });
+    await tx.books.update({
+      where: { id: bookId },
+      data: {
+        average_rating: new Prisma.Decimal(stats._avg.rating ?? 0).toDecimalPlaces(2),
+        review_count: stats._count,
+      },
+    });
+    return result;
+  });
+}
+
+// Hanya pembeli: user harus punya order_items untuk buku ini di order yang tidak dibatalkan
+export async function create(bookId: string, userId: string, input: ReviewInput) {
+  await findBook(bookId);
+
+  const purchased = await prisma.order_items.findFirst({
+    where: { book_id: bookId, order: { user_id: userId, status: { not: 'cancelled' } } },
+    select: { id: true },
+  });
+  if (!purchased) {
+    throw new ForbiddenError('Only customers who purchased this book can review it', { code: 'REVIEW_NOT_ALLOWED' });
+  }
+
+  const existing = await prisma.reviews.findUnique({ where: { book_id_user_id: { book_id: bookId, user_id: userId } } });
+  if (existing) {
+    throw new ConflictError('You have already reviewed this book, update your review instead', {
+      code: 'REVIEW_EXISTS',
+      details: { review_id: existing.id },
+    });
+  }
+
+  return withRatingRefresh(bookId, (tx) =>
+    tx.reviews.create({ data: { book_id: bookId, user_id: userId, ...input }, include: reviewInclude })
+  );
+}
+
+// Review publik sebuah buku; admin bisa melihat review hidden lewat filter status
+export async function listForBook(bookId: string, query: ListQuery, isAdmin: boolean) {
+  await findBook(bookId);
+  const where = {
+    ...toWhere(query),
+    ...(isAdmin && query.filters.status ? {} : { status: 'published' as ReviewStatus }),
+    book_id: bookId,
+  };
+
+  const [rows, total, distribution, book] = await Promise.all([
+    prisma.reviews.findMany({ where, include: reviewInclude, ...toFindArgs(query) }),
+    prisma.reviews.count({ where }),
+    prisma.reviews.groupBy({ by: ['rating'], where: { book_id: bookId, status: 'published' }, _count: true }),
+    prisma.books.findUniqueOrThrow({ where: { id: bookId }, select: { average_rating: true, review_count: true } }),
+  ]);
+
+  // Jumlah review per bintang 1-5, bintang tanpa review tetap muncul dengan 0
+  const counts = Object.fromEntries([1, 2, 3, 4, 5].map((star) => [star, distribution.find((d) => d.rating === star)?._count ?? 0]));
+  return { ...toPage(query, rows, total), summary: { ...book, distribution: counts } };
+}
+
+// Semua review (admin), untuk antrean moderasi
+export async function list(query: ListQuery) {
+  const where = toWhere(query);
+  const [rows, total] = await Promise.all([
+    prisma.reviews.findMany({
+      where,
+      include: { ...reviewInclude, book: { select: { id: true, title: true } } },
+      ...toFindArgs(query),
+    }),
+    prisma.reviews.count({ where }),
+  ]);
+  return toPage(query, rows, total);
+}
+
+// Hanya penulis review yang boleh mengubah isinya (admin juga tidak); status moderasi tidak berubah
+export async function update(id: string, userId: string, input: Partial<ReviewInput>) {
+  const review = await findReview(id, userId);
+  return withRatingRefresh(review.book_id, (tx) => tx.reviews.update({ where: { id }, data: input, include: reviewInclude }));
+}
+
+// ownerId kosong untuk admin (boleh menghapus review siapa pun)
+export async function remove(id: string, ownerId?: string) {
+  const review = await findReview(id, ownerId);
+  await withRatingRefresh(review.book_id, (tx) => tx.reviews.delete({ where: { id } }));
+}
+
+// Review hidden tidak tampil di publik dan tidak dihitung di rating buku
+export async function moderate(id: string, moderatorId: string, status: ReviewStatus, note?: string) {
+  const review = await findReview(id);
+  return withRatingRefresh(review.book_id, (tx) =>
+    tx.reviews.update({
+      where: { id },
+      data: { status, moderation_note: note ?? null, moderated_by: moderatorId, moderated_at: new Date() },
+      include: reviewInclude,
+    })
+  );
+}
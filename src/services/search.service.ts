@@ -0,0 +1,161 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma/client';
+import { SortField } from '../utils/query';
+import { bookInclude } from './book.service';
+
+export type BookSearch = {
+  q?: string;
+  min_price?: number;
+  max_price?: number;
+  min_year?: number;
+  max_year?: number;
+  genre_ids?: string[];
+  author_ids?: string[];
+  publisher_ids?: string[];
+  in_stock?: boolean;
+  sort: SortField[];
+  page: number;
+  limit: number;
+};
+
+// Batas bawah setiap bucket harga; bucket terakhir tidak punya batas atas
+const PRICE_BUCKETS = [0, 50000, 100000, 200000, 500000];
+
+// Fallback trigram memakai operator % (pg_trgm.similarity_threshold, default 0.3) supaya indeks GIN trigram
+// di books.title dan authors.name terpakai; typo seperti "harri poter" tetap ketemu
+
+// Buku selalu di-join dengan author (a) dan publisher (p) supaya namanya ikut dicari
+const BOOKS = Prisma.sql`books b JOIN authors a ON a.id = b.author_id JOIN publishers p ON p.id = b.publisher_id`;
+
+// Dokumen title > author > publisher > description disimpan di books.search_vector (diisi trigger, indeks GIN;
+// lihat prisma/sql/books_search_vector.sql), bukan dihitung ulang per query
+const DOCUMENT = Prisma.sql`b.search_vector`;
+
+// Kolom yang boleh dipakai di sort (nama field -> SQL)
+const SORT_COLUMNS: Record<string, string> = {
+  relevance: 'rank',
+  title: 'b.title',
+  price: 'b.price',
+  publication_year: 'b.publication_year',
+  created_at: 'b.created_at',
+  average_rating: 'b.average_rating',
+  review_count: 'b.review_count',
+};
+
+type FacetFilter = 'genre' | 'price';
+
+// Facet genre dan harga tidak memakai filternya sendiri, supaya sidebar tetap menampilkan pilihan lain
+function buildWhere(input: BookSearch, except?: FacetFilter) {
+  const conditions: Prisma.Sql[] = [Prisma.sql`b.deleted_at IS NULL`];
+
+  if (input.q) {
+    conditions.push(Prisma.sql`(
+      ${DOCUMENT} @@ websearch_to_tsquery('simple', ${input.q})
+      OR b.title % ${input.q}
+      OR a.name % ${input.q}
+    )`);
+  }
+  if (except !== 'price') {
+    if (input.min_price !== undefined) conditions.push(Prisma.sql`b.price >= ${input.min_price}`);
+    if (input.max_price !== undefined) conditions.push(Prisma.sql`b.price <= ${input.max_price}`);
+  }
+  if (input.min_year !== undefined) conditions.push(Prisma.sql`b.publication_year >= ${input.min_year}`);
+  if (input.max_year !== undefined) conditions.push(Prisma.sql`b.publication_year <= ${input.max_year}`);
+  // Genre utama atau genre tambahan (tabel relasi implisit _book_genres: A = book, B = genre)
+  if (except !== 'genre' && input.genre_ids?.length) {
+    conditions.push(Prisma.sql`(
+      b.genre_id IN (${Prisma.join(input.genre_ids)})
+      OR EXISTS (SELECT 1 FROM "_book_genres" bg WHERE bg."A" = b.id AND bg."B" IN (${Prisma.join(input.genre_ids)}))
+    )`);
+  }
+  if (input.author_ids?.length) conditions.push(Prisma.sql`b.author_id IN (${Prisma.join(input.author_ids)})`);
+  if (input.publisher_ids?.length) conditions.push(Prisma.sql`b.publisher_id IN (${Prisma.join(input.publisher_ids)})`);
+  if (input.in_stock) conditions.push(Prisma.sql`b.stock_quantity > 0`);
+
+  return Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`;
+}
+
+function rankSql(q?: string) {
+  if (!q) return Prisma.sql`0`;
+  return Prisma.sql`(
+    ts_rank(${DOCUMENT}, websearch_to_tsquery('simple', ${q}))
+    + 0.5 * GREATEST(similarity(b.title, ${q}), similarity(a.name, ${q}))
+  )`;
+}
+
+function orderBySql(sort: SortField[]) {
+  const parts = sort
+    .filter((s) => SORT_COLUMNS[s.field])
+    .map((s) => Prisma.raw(`${SORT_COLUMNS[s.field]} ${s.direction === 'desc' ? 'DESC' : 'ASC'}`));
+  return Prisma.join([...parts, Prisma.raw('b.title ASC'), Prisma.raw('b.id ASC')], ', ');
+}
+
+function priceBucketSql() {
+  const cases = PRICE_BUCKETS.map((min, i) => {
+    const max = PRICE_BUCKETS[i + 1];
+    return max === undefined
+      ? Prisma.sql`WHEN b.price >= ${min} THEN ${Prisma.raw(String(i))}`
+      : Prisma.sql`WHEN b.price >= ${min} AND b.price < ${max} THEN ${Prisma.raw(String(i))}`;
+  });
+  return Prisma.sql`CASE ${Prisma.join(cases, ' ')} END`;
+}
+
+type FacetRow = { value: string; label: string; count: bigint };
+
+export async function search(input: BookSearch) {
+  const where = buildWhere(input);
+  const offset = (input.page - 1) * input.limit;
+
+  const [hits, totalRows, genreRows, authorRows, publisherRows, priceRows] = await Promise.all([
+    prisma.$queryRaw<{ id: string; rank: number }[]>`
+      SELECT b.id, ${rankSql(input.q)}::float AS rank
+      FROM ${BOOKS} ${where}
+      ORDER BY ${orderBySql(input.sort)}
+      LIMIT ${input.limit} OFFSET ${offset}`,
+    prisma.$queryRaw<{ count: bigint }[]>`SELECT COUNT(*) AS count FROM ${BOOKS} ${where}`,
+    // Buku dihitung di genre utama dan semua genre tambahannya
+    prisma.$queryRaw<FacetRow[]>`
+      SELECT g.id AS value, g.name AS label, COUNT(DISTINCT b.id) AS count
+      FROM ${BOOKS}
+      JOIN genres g ON g.deleted_at IS NULL
+        AND (g.id = b.genre_id OR EXISTS (SELECT 1 FROM "_book_genres" bg WHERE bg."A" = b.id AND bg."B" = g.id))
+      ${buildWhere(input, 'genre')}
+      GROUP BY g.id, g.name ORDER BY count DESC, g.name ASC`,
+    prisma.$queryRaw<FacetRow[]>`
+      SELECT a.id AS value, a.name AS label, COUNT(*) AS count
+      FROM ${BOOKS} ${where}
+      GROUP BY a.id, a.name ORDER BY count DESC, a.name ASC LIMIT 20`,
+    prisma.$queryRaw<FacetRow[]>`
+      SELECT p.id AS value, p.name AS label, COUNT(*) AS count
+      FROM ${BOOKS} ${where}
+      GROUP BY p.id, p.name ORDER BY count DESC, p.name ASC LIMIT 20`,
+    prisma.$queryRaw<{ bucket: number; count: bigint }[]>`
+      SELECT ${priceBucketSql()} AS bucket, COUNT(*) AS count
+      FROM ${BOOKS} ${buildWhere(input, 'price')}
+      GROUP BY bucket`,
+  ]);
+
+  // Ambil data lengkap (dengan genre, author, publisher) lalu urutkan kembali sesuai rank
+  const books = await prisma.books.findMany({ where: { id: { in: hits.map((h) => h.id) } }, include: bookInclude });
+  const byId = new Map(books.map((b) => [b.id, b]));
+  const results = hits.filter((h) => byId.has(h.id)).map((h) => ({ ...byId.get(h.id)!, rank: h.rank }));
+
+  const toFacet = (rows: FacetRow[]) => rows.map((r) => ({ value: r.value, label: r.label, count: Number(r.count) }));
+  const priceCounts = new Map(priceRows.map((r) => [Number(r.bucket), Number(r.count)]));
+  const total = Number(totalRows[0]?.count ?? 0);
+
+  return {
+    books: results,
+    facets: {
+      genres: toFacet(genreRows),
+      authors: toFacet(authorRows),
+      publishers: toFacet(publisherRows),
+      price_buckets: PRICE_BUCKETS.map((min, i) => ({
+        min,
+        max: PRICE_BUCKETS[i + 1] ?? null,
+        count: priceCounts.get(i) ?? 0,
+      })),
+    },
+    total,
+  };
+}
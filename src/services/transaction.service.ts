@@ -0,0 +1,121 @@
+import { OrderStatus, Prisma } from '@prisma/client';
+import { Db } from '../prisma/client';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { moveStock, releaseExpired, releaseReservations, stockTransaction } from './inventory.service';
+import * as promotionSvc from './promotion.service';
+import { bookInclude } from './book.service';
+
+export type OrderItemInput = { book_id: string; quantity: number };
+
+// Transisi status yang diizinkan; cancelled dan refunded adalah status akhir
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['shipped', 'cancelled', 'refunded'],
+  shipped: ['completed', 'refunded'],
+  completed: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+// Status yang stoknya dikembalikan ke books.stock_quantity, beserta jenis entri ledger-nya
+const RESTOCK_MOVEMENTS: Partial<Record<OrderStatus, 'cancellation' | 'return'>> = {
+  cancelled: 'cancellation',
+  refunded: 'return',
+};
+
+// Order yang sudah dibayar dan dihitung sebagai revenue
+export const REVENUE_STATUSES: OrderStatus[] = ['paid', 'shipped', 'completed'];
+
+export const orderInclude = {
+  user: { select: { id: true, username: true, email: true } },
+  order_items: { include: { book: { include: bookInclude } } },
+  status_history: { orderBy: { created_at: 'asc' } },
+} satisfies Prisma.ordersInclude;
+
+// Hitung diskon promo (jika ada), buat orders + order_items dengan snapshot harga, lalu kurangi stok lewat ledger
+// (jenis sale). Stok dicek oleh update bersyarat di moveStock, bukan dibaca lebih dulu; stok kurang -> INSUFFICIENT_STOCK
+// dan seluruh transaksi di-rollback. Dipanggil di dalam stockTransaction supaya semua langkah atomik.
+export async function placeOrder(tx: Db, userId: string, items: OrderItemInput[], promoCode?: string) {
+  let subtotal = new Prisma.Decimal(0);
+  const orderItems: { book_id: string; quantity: number; unit_price: Prisma.Decimal }[] = [];
+  const lines: promotionSvc.PromotionLine[] = [];
+
+  for (const item of items) {
+    const book = await tx.books.findFirst({ where: { id: item.book_id, deleted_at: null }, include: { genres: { where: { deleted_at: null }, select: { id: true } } } });
+    if (!book) throw new NotFoundError(`Book with ID ${item.book_id} not found`, { code: 'BOOK_NOT_FOUND', details: { book_id: item.book_id } });
+
+    const lineTotal = book.price.mul(item.quantity);
+    subtotal = subtotal.add(lineTotal);
+    orderItems.push({ book_id: book.id, quantity: item.quantity, unit_price: book.price });
+    lines.push({ book_id: book.id, genre_ids: [book.genre_id, ...book.genres.map((g) => g.id)], line_total: lineTotal });
+  }
+
+  const applied = promoCode ? await promotionSvc.evaluate(tx, promoCode, userId, lines) : null;
+  const discount = applied?.discount ?? new Prisma.Decimal(0);
+
+  const order = await tx.orders.create({
+    data: {
+      user_id: userId,
+      total_amount: subtotal.sub(discount),
+      discount_amount: discount,
+      promotion_id: applied?.promotion.id,
+      promotion_code: applied?.promotion.code,
+      order_items: { create: orderItems },
+      status_history: { create: { to_status: 'pending', changed_by: userId } },
+    },
+  });
+
+  if (applied) await promotionSvc.redeem(tx, applied.promotion, userId, order.id, discount);
+
+  // Reservasi kedaluwarsa milik siapa pun dan reservasi user sendiri untuk buku ini dikembalikan dulu ke stok,
+  // lalu stok diambil urut book_id supaya order paralel mengunci baris buku dengan urutan yang sama
+  const bookIds = [...new Set(orderItems.map((i) => i.book_id))].sort();
+  await releaseExpired(tx, bookIds);
+  await releaseReservations(tx, userId, 'Checkout', bookIds);
+
+  const byBook = [...orderItems].sort((a, b) => a.book_id.localeCompare(b.book_id));
+  for (const item of byBook) {
+    await moveStock(tx, { bookId: item.book_id, type: 'sale', quantity: -item.quantity, actorId: userId, orderId: order.id });
+  }
+
+  return tx.orders.findUniqueOrThrow({ where: { id: order.id }, include: orderInclude });
+}
+
+export async function create(userId: string, items: OrderItemInput[], promoCode?: string) {
+  return stockTransaction((tx) => placeOrder(tx, userId, items, promoCode));
+}
+
+export async function transition(orderId: string, to: OrderStatus, actorId: string, note?: string, ownerId?: string) {
+  return stockTransaction(async (tx) => {
+    const order = await tx.orders.findUnique({ where: { id: orderId }, include: { order_items: true } });
+    if (!order || (ownerId && order.user_id !== ownerId)) throw new NotFoundError('Transaction not found');
+
+    if (!ORDER_TRANSITIONS[order.status].includes(to)) {
+      throw new ConflictError(`Cannot change order status from ${order.status} to ${to}`, {
+        code: 'INVALID_STATUS_TRANSITION',
+        details: { from: order.status, to, allowed: ORDER_TRANSITIONS[order.status] },
+      });
+    }
+
+    // Update bersyarat pada status lama, supaya dua request paralel tidak mengembalikan stok dua kali
+    const updated = await tx.orders.updateMany({ where: { id: order.id, status: order.status }, data: { status: to } });
+    if (updated.count === 0) {
+      throw new ConflictError('Order status was changed by another request, please retry', { code: 'CONCURRENT_UPDATE' });
+    }
+
+    const movement = RESTOCK_MOVEMENTS[to];
+    if (movement) {
+      for (const item of order.order_items) {
+        await moveStock(tx, { bookId: item.book_id, type: movement, quantity: item.quantity, actorId, orderId: order.id, reason: note });
+      }
+    }
+    // Kuota promo hanya dikembalikan untuk order yang batal; order yang di-refund tetap terhitung memakai kode
+    if (to === 'cancelled') await promotionSvc.release(tx, order.id);
+
+    await tx.order_status_history.create({
+      data: { order_id: order.id, from_status: order.status, to_status: to, changed_by: actorId, note },
+    });
+
+    return tx.orders.findUniqueOrThrow({ where: { id: order.id }, include: orderInclude });
+  });
+}
@@ -0,0 +1,78 @@
+import { Role } from '@prisma/client';
+import { prisma, retryTransaction } from '../prisma/client';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { deletedWhere, ListQuery, toFindArgs, toPage, toWhere } from '../utils/query';
+
+const publicUser = { id: true, email: true, username: true, role: true, created_at: true } as const;
+
+// Field tambahan untuk tampilan admin (status akun)
+const adminUser = {
+  ...publicUser,
+  email_verified_at: true,
+  disabled_at: true,
+  disabled_reason: true,
+  locked_until: true,
+  deleted_at: true,
+  _count: { select: { orders: true } },
+} as const;
+
+// Akun yang sudah dihapus (dianonimkan) diperlakukan sebagai tidak ditemukan
+async function findUser(id: string) {
+  const user = await prisma.users.findFirst({ where: { id, deleted_at: null } });
+  if (!user) throw new NotFoundError('User not found', { code: 'USER_NOT_FOUND' });
+  return user;
+}
+
+// Admin aktif terakhir tidak bisa diturunkan (aturan LAST_ADMIN yang sama dengan hapus akun). Baris admin aktif
+// dikunci (FOR UPDATE), jadi dua penurunan paralel tidak bisa sama-sama lolos dan menghabiskan semua admin
+export async function setRole(id: string, role: Role) {
+  const user = await findUser(id);
+  if (user.role !== 'admin' || role === 'admin') {
+    return prisma.users.update({ where: { id }, data: { role }, select: publicUser });
+  }
+  return retryTransaction(async (tx) => {
+    const admins = await tx.$queryRaw<{ id: string }[]>`
+      SELECT id FROM users WHERE role = 'admin' AND deleted_at IS NULL AND disabled_at IS NULL FOR UPDATE`;
+    if (!admins.some((a) => a.id !== id)) {
+      throw new ConflictError('The last active admin cannot be demoted', { code: 'LAST_ADMIN' });
+    }
+    return tx.users.update({ where: { id }, data: { role }, select: publicUser });
+  });
+}
+
+// Filter disabled bukan kolom, jadi diterjemahkan manual ke disabled_at
+export async function list(query: ListQuery) {
+  const { disabled, ...filters } = query.filters;
+  const where = {
+    ...toWhere({ ...query, filters }),
+    ...deletedWhere(query),
+    ...(disabled && { disabled_at: disabled.eq ? { not: null } : null }),
+    ...(query.search && {
+      OR: [
+        { email: { contains: query.search, mode: 'insensitive' as const } },
+        { username: { contains: query.search, mode: 'insensitive' as const } },
+      ],
+    }),
+  };
+  const [rows, total] = await Promise.all([
+    prisma.users.findMany({ where, select: adminUser, ...toFindArgs(query) }),
+    prisma.users.count({ where }),
+  ]);
+  return toPage(query, rows, total);
+}
+
+// Semua sesi dicabut; authGuard menolak access token yang masih berlaku dengan 403 ACCOUNT_DISABLED
+export async function disable(id: string, actorId: string, reason?: string) {
+  if (id === actorId) throw new BadRequestError('You cannot disable your own account', { code: 'CANNOT_DISABLE_SELF' });
+  await findUser(id);
+  const [, user] = await prisma.$transaction([
+    prisma.refresh_tokens.updateMany({ where: { user_id: id, revoked_at: null }, data: { revoked_at: new Date() } }),
+    prisma.users.update({ where: { id }, data: { disabled_at: new Date(), disabled_reason: reason ?? null }, select: adminUser }),
+  ]);
+  return user;
+}
+
+export async function enable(id: string) {
+  await findUser(id);
+  return prisma.users.update({ where: { id }, data: { disabled_at: null, disabled_reason: null }, select: adminUser });
+}
@@ -0,0 +1,65 @@
+import { prisma } from '../prisma/client';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { ListQuery, toFindArgs, toPage } from '../utils/query';
+
+const bookSelect = {
+  id: true, title: true, price: true, stock_quantity: true, deleted_at: true,
+  author: { select: { id: true, name: true } },
+} as const;
+
+async function findBook(bookId: string) {
+  const book = await prisma.books.findFirst({ where: { id: bookId, deleted_at: null }, select: bookSelect });
+  if (!book) throw new NotFoundError('Book not found', { code: 'BOOK_NOT_FOUND' });
+  return book;
+}
+
+// Setiap item menyertakan status stok terkini dan apakah user berlangganan notifikasi stok buku tersebut
+export async function list(userId: string, query: ListQuery) {
+  const where = { user_id: userId };
+  const [rows, total, subscriptions] = await Promise.all([
+    prisma.wishlist_items.findMany({ where, include: { book: { select: bookSelect } }, ...toFindArgs(query) }),
+    prisma.wishlist_items.count({ where }),
+    prisma.stock_subscriptions.findMany({ where: { user_id: userId }, select: { book_id: true } }),
+  ]);
+  const items = rows.map((row) => ({
+    ...row,
+    in_stock: row.book.deleted_at === null && row.book.stock_quantity > 0,
+    notify_when_available: subscriptions.some((s) => s.book_id === row.book_id),
+  }));
+  return toPage(query, items, total);
+}
+
+export async function add(userId: string, bookId: string) {
+  const book = await findBook(bookId);
+  const existing = await prisma.wishlist_items.findUnique({ where: { user_id_book_id: { user_id: userId, book_id: bookId } } });
+  if (existing) throw new ConflictError('Book is already in your wishlist', { code: 'ALREADY_IN_WISHLIST' });
+  const item = await prisma.wishlist_items.create({ data: { user_id: userId, book_id: bookId } });
+  return { ...item, book };
+}
+
+export async function remove(userId: string, bookId: string) {
+  const deleted = await prisma.wishlist_items.deleteMany({ where: { user_id: userId, book_id: bookId } });
+  if (deleted.count === 0) throw new NotFoundError('Book is not in your wishlist', { code: 'WISHLIST_ITEM_NOT_FOUND' });
+}
+
+// "Notify me": boleh untuk buku apa saja (juga yang belum di wishlist); notifikasi dikirim saat stok kembali dari 0
+export async function subscribe(userId: string, bookId: string) {
+  const book = await findBook(bookId);
+  const existing = await prisma.stock_subscriptions.findUnique({ where: { user_id_book_id: { user_id: userId, book_id: bookId } } });
+  if (existing) throw new ConflictError('You are already subscribed to this book', { code: 'ALREADY_SUBSCRIBED' });
+  const subscription = await prisma.stock_subscriptions.create({ data: { user_id: userId, book_id: bookId } });
+  return { ...subscription, book };
+}
+
+export async function unsubscribe(userId: string, bookId: string) {
+  const deleted = await prisma.stock_subscriptions.deleteMany({ where: { user_id: userId, book_id: bookId } });
+  if (deleted.count === 0) throw new NotFoundError('Subscription not found', { code: 'SUBSCRIPTION_NOT_FOUND' });
+}
+
+export async function listSubscriptions(userId: string) {
+  return prisma.stock_subscriptions.findMany({
+    where: { user_id: userId },
+    include: { book: { select: bookSelect } },
+    orderBy: { created_at: 'desc' },
+  });
+}
@@ -0,0 +1,65 @@
+// Parser/serializer CSV sederhana (RFC 4180): pemisah koma, field boleh diapit tanda kutip,
+// "" di dalam kutip = satu tanda kutip, baris baru di dalam kutip ikut menjadi isi field.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // BOM dari Excel dibuang
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') quoted = true;
+    else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Baris kosong (misal di akhir file) diabaikan
+  return rows.filter((r) => r.some((v) => v.trim() !== ''));
+}
+
+// Baris pertama dipakai sebagai header; nama kolom di-trim dan dijadikan huruf kecil
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((h) => h.trim().toLowerCase());
+  return rows.map((values) => Object.fromEntries(columns.map((col, i) => [col, values[i] ?? ''])));
+}
+
+function escapeField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(values: unknown[]): string {
+  return values.map(escapeField).join(',') + '\r\n';
+}
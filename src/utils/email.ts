@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+// Email disimpan, dicari dan dipakai sebagai kunci rate limit/lockout dalam bentuk ini, supaya "A@x.com" dan
+// "a@x.com" selalu dianggap akun yang sama
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Field email di DTO: dinormalisasi sebelum divalidasi
+export const emailField = () => z.string().overwrite(normalizeEmail).email();
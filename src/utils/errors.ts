@@ -0,0 +1,86 @@
+import type { FieldError } from './response';
+
+type ErrorOptions = { code?: string; details?: unknown };
+
+// Semua error yang sengaja dilempar aplikasi; middlewares/error.ts mengubahnya menjadi ApiError
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message = 'Bad request', opts: ErrorOptions = {}) {
+    super(400, opts.code ?? 'BAD_REQUEST', message, opts.details);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Authentication required. Please login first.', opts: ErrorOptions = {}) {
+    super(401, opts.code ?? 'UNAUTHORIZED', message, opts.details);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = 'You do not have permission to access this resource', opts: ErrorOptions = {}) {
+    super(403, opts.code ?? 'FORBIDDEN', message, opts.details);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = 'Resource not found', opts: ErrorOptions = {}) {
+    super(404, opts.code ?? 'NOT_FOUND', message, opts.details);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message = 'Resource conflict', opts: ErrorOptions = {}) {
+    super(409, opts.code ?? 'CONFLICT', message, opts.details);
+  }
+}
+
+// If-Match tidak cocok dengan versi terkini; details.current_etag berisi ETag terbaru
+export class PreconditionFailedError extends AppError {
+  constructor(message = 'Resource has been modified, reload and retry', opts: ErrorOptions = {}) {
+    super(412, opts.code ?? 'PRECONDITION_FAILED', message, opts.details);
+  }
+}
+
+// retryAfter (detik) dikirim errorHandler sebagai header Retry-After
+export class TooManyRequestsError extends AppError {
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number, message = 'Too many requests, please try again later', opts: ErrorOptions = {}) {
+    super(429, opts.code ?? 'TOO_MANY_REQUESTS', message, opts.details);
+    this.retryAfter = retryAfter;
+  }
+}
+
+// 400 untuk request salah bentuk, 422 untuk pelanggaran aturan; errors berisi daftar field yang gagal
+export class ValidationError extends AppError {
+  readonly errors: FieldError[];
+
+  constructor(errors: FieldError[], status: 400 | 422 = 422, message = 'Validation failed') {
+    super(status, 'VALIDATION_ERROR', message);
+    this.errors = errors;
+  }
+}
+
+export class InsufficientStockError extends AppError {
+  constructor(book: { id: string; title: string }, available: number, requested: number) {
+    super(
+      400,
+      'INSUFFICIENT_STOCK',
+      `Insufficient stock for "${book.title}". Available: ${available}, Requested: ${requested}`,
+      { book_id: book.id, title: book.title, available, requested }
+    );
+  }
+}
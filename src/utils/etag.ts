@@ -0,0 +1,22 @@
+import { PreconditionFailedError } from './errors';
+
+// ETag dari kolom version; resource yang menyertakan relasi (buku + genre) memakai gabungan version-nya
+export const etagOf = (...versions: number[]) => `"${versions.join('.')}"`;
+
+// If-Match: "a", W/"b" atau *. Weak tag dibandingkan sebagai strong (versi sama = isi sama).
+function matches(header: string, etag: string) {
+  if (header.trim() === '*') return true;
+  return header.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag);
+}
+
+// Tanpa header If-Match request tetap diproses (last write wins), seperti sebelum ada ETag
+export function assertIfMatch(header: string | undefined, etag: string) {
+  if (header === undefined || matches(header, etag)) return;
+  throw new PreconditionFailedError('Resource has been modified since it was fetched, reload and retry', {
+    details: { current_etag: etag },
+  });
+}
+
+// Update bersyarat (where version = ...) yang tidak mengenai baris: ada request lain yang menulis lebih dulu
+export const concurrentModification = () =>
+  new PreconditionFailedError('Resource was modified by another request, reload and retry');
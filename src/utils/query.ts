@@ -0,0 +1,215 @@
+import { z } from 'zod';
+
+// Satu format query untuk semua endpoint list:
+//   ?page=2&limit=20                  offset pagination (limit dibatasi maxLimit)
+//   ?cursor=<id>&limit=20             cursor pagination (jika spec.cursor = true)
+//   ?sort=-price,title                multi-field sort, "-" = desc
+//   ?price[gte]=1000&genre_id[in]=a,b filter dengan operator bertipe
+//   ?search=kata                      pencarian bebas (nama parameter diatur lewat spec.search)
+//   ?include_deleted=true             ikut tampilkan data soft-delete (jika spec.softDelete = true)
+//   ?only_deleted=true                hanya data soft-delete
+
+export type FilterOp = 'eq' | 'in' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains';
+export type FieldType = 'string' | 'number' | 'int' | 'date' | 'boolean' | { enum: readonly string[] };
+export type FilterSpec = Record<string, { type: FieldType; ops: FilterOp[] }>;
+
+export type ListQuerySpec = {
+  sort: string[];
+  defaultSort: string;
+  filters?: FilterSpec;
+  cursor?: boolean;
+  search?: string;
+  softDelete?: boolean;
+  defaultLimit?: number;
+  maxLimit?: number;
+};
+
+export type SortField = { field: string; direction: 'asc' | 'desc' };
+
+export type ListQuery = {
+  page: number;
+  limit: number;
+  cursor?: string;
+  search?: string;
+  deleted?: 'include' | 'only';
+  sort: SortField[];
+  filters: Record<string, Partial<Record<FilterOp, unknown>>>;
+};
+
+export type Pagination = {
+  page: number | null;
+  limit: number;
+  total: number | null;
+  total_pages: number | null;
+  has_more: boolean;
+  next_cursor: string | null;
+};
+
+type FindArgs = {
+  orderBy: Record<string, 'asc' | 'desc'>[];
+  take: number;
+  skip: number;
+  cursor?: { id: string };
+};
+
+const PRISMA_OPS: Record<FilterOp, string> = {
+  eq: 'equals',
+  in: 'in',
+  gt: 'gt',
+  gte: 'gte',
+  lt: 'lt',
+  lte: 'lte',
+  contains: 'contains',
+};
+
+function valueSchema(type: FieldType): z.ZodType {
+  if (typeof type === 'object') return z.enum(type.enum as [string, ...string[]]);
+  switch (type) {
+    case 'number': return z.coerce.number().refine(Number.isFinite, 'must be a number');
+    case 'int': return z.coerce.number().int();
+    case 'date': return z.coerce.date();
+    case 'boolean': return z.enum(['true', 'false']).transform((v) => v === 'true');
+    default: return z.string().min(1);
+  }
+}
+
+// Query parser Express 5 ("simple") memberi key "price[gte]"; parser extended memberi { price: { gte } }
+function collectFilters(raw: Record<string, unknown>) {
+  const entries: { field: string; op: string; value: unknown }[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    const match = /^(\w+)\[(\w+)\]$/.exec(key);
+    if (match) entries.push({ field: match[1], op: match[2], value });
+    else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [op, v] of Object.entries(value)) entries.push({ field: key, op, value: v });
+    } else entries.push({ field: key, op: 'eq', value });
+  }
+  return entries;
+}
+
+// Spec setiap schema listQuery, dibaca generator OpenAPI (src/docs/openapi.ts) untuk parameter page/sort/filter
+export const listQuerySpecs = z.registry<ListQuerySpec>();
+
+export function listQuery(spec: ListQuerySpec) {
+  const maxLimit = spec.maxLimit ?? 100;
+  const filterSpec = spec.filters ?? {};
+
+  const schema = z
+    .looseObject({
+      page: z.coerce.number().int().min(1).default(1),
+      limit: z.coerce.number().int().min(1).max(maxLimit).default(spec.defaultLimit ?? 10),
+      cursor: z.string().min(1).optional(),
+      sort: z.string().default(spec.defaultSort),
+      include_deleted: z.enum(['true', 'false']).optional(),
+      only_deleted: z.enum(['true', 'false']).optional(),
+    })
+    .transform((raw, ctx): ListQuery => {
+      const { page, limit, cursor, sort, include_deleted, only_deleted, ...rest } = raw;
+      const searchValue = spec.search ? rest[spec.search] : undefined;
+      const search = typeof searchValue === 'string' && searchValue.trim() !== '' ? searchValue.trim() : undefined;
+
+      if (cursor && !spec.cursor) {
+        ctx.addIssue({ code: 'custom', path: ['cursor'], message: 'cursor pagination is not supported here' });
+      }
+
+      let deleted: ListQuery['deleted'];
+      if (include_deleted === 'true' || only_deleted === 'true') {
+        if (!spec.softDelete) {
+          ctx.addIssue({ code: 'custom', path: [include_deleted ? 'include_deleted' : 'only_deleted'], message: 'deleted records are not available here' });
+        } else if (include_deleted === 'true' && only_deleted === 'true') {
+          ctx.addIssue({ code: 'custom', path: ['only_deleted'], message: 'use either include_deleted or only_deleted, not both' });
+        } else {
+          deleted = only_deleted === 'true' ? 'only' : 'include';
+        }
+      }
+
+      const sortFields: SortField[] = [];
+      for (const part of sort.split(',').map((s) => s.trim()).filter(Boolean)) {
+        const field = part.replace(/^[-+]/, '');
+        if (!spec.sort.includes(field)) {
+          ctx.addIssue({ code: 'custom', path: ['sort'], message: `cannot sort by "${field}" (allowed: ${spec.sort.join(', ')})` });
+          continue;
+        }
+        sortFields.push({ field, direction: part.startsWith('-') ? 'desc' : 'asc' });
+      }
+
+      const filters: ListQuery['filters'] = {};
+      for (const { field, op, value } of collectFilters(rest)) {
+        const fieldSpec = filterSpec[field];
+        // Parameter yang tidak dikenal diabaikan (tidak diteruskan ke handler)
+        if (!fieldSpec) continue;
+        if (!fieldSpec.ops.includes(op as FilterOp)) {
+          ctx.addIssue({ code: 'custom', path: [field], message: `operator "${op}" is not allowed (allowed: ${fieldSpec.ops.join(', ')})` });
+          continue;
+        }
+        const values = op === 'in' ? String(value).split(',') : [Array.isArray(value) ? value[0] : value];
+        const parsed = values.map((v) => valueSchema(fieldSpec.type).safeParse(v));
+        const failed = parsed.find((p) => !p.success);
+        if (failed && !failed.success) {
+          ctx.addIssue({ code: 'custom', path: [`${field}[${op}]`], message: failed.error.issues[0]?.message ?? 'invalid value' });
+          continue;
+        }
+        const data = parsed.map((p) => p.data);
+        filters[field] = { ...filters[field], [op]: op === 'in' ? data : data[0] };
+      }
+
+      return { page, limit, cursor, search, deleted, sort: sortFields, filters };
+    });
+  listQuerySpecs.add(schema, spec);
+  return schema;
+}
+
+// Filter -> where Prisma; contains selalu case-insensitive.
+// Where = tipe where model (misal Prisma.ordersWhereInput); field dan operatornya sudah dibatasi spec listQuery
+export function toWhere<Where extends object = Record<string, Record<string, unknown>>>(q: ListQuery): Where {
+  const where: Record<string, Record<string, unknown>> = {};
+  for (const [field, ops] of Object.entries(q.filters)) {
+    for (const [op, value] of Object.entries(ops)) {
+      where[field] = { ...where[field], [PRISMA_OPS[op as FilterOp]]: value };
+      if (op === 'contains') where[field].mode = 'insensitive';
+    }
+  }
+  return where as Where;
+}
+
+// Kondisi deleted_at sesuai mode include_deleted / only_deleted (default: hanya data aktif)
+export function deletedWhere(q: ListQuery) {
+  if (q.deleted === 'include') return {};
+  if (q.deleted === 'only') return { deleted_at: { not: null } };
+  return { deleted_at: null };
+}
+
+// Argumen findMany; id sebagai tie-breaker supaya urutan stabil untuk cursor
+export function toFindArgs(q: ListQuery): FindArgs {
+  const orderBy = [...q.sort.map((s) => ({ [s.field]: s.direction })), { id: 'asc' as const }];
+  if (q.cursor) return { orderBy, take: q.limit + 1, cursor: { id: q.cursor }, skip: 1 };
+  return { orderBy, take: q.limit + 1, skip: (q.page - 1) * q.limit };
+}
+
+// Satu ekstra baris diambil untuk mengetahui has_more tanpa query tambahan
+export function toPage<T extends { id: string }>(q: ListQuery, rows: T[], total?: number): { items: T[]; pagination: Pagination } {
+  const has_more = rows.length > q.limit;
+  const items = has_more ? rows.slice(0, q.limit) : rows;
+  return {
+    items,
+    pagination: {
+      page: q.cursor ? null : q.page,
+      limit: q.limit,
+      total: total ?? null,
+      total_pages: total === undefined ? null : Math.ceil(total / q.limit),
+      has_more,
+      next_cursor: has_more ? items[items.length - 1].id : null,
+    },
+  };
+}
+
+// Untuk query raw SQL yang hanya mendukung offset (LIMIT/OFFSET)
+export function offsetPagination(q: ListQuery, total: number): Pagination {
+  return {
+    page: q.page,
+    limit: q.limit,
+    total,
+    total_pages: Math.ceil(total / q.limit),
+    has_more: q.page * q.limit < total,
+    next_cursor: null,
+  };
+}
@@ -0,0 +1,15 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Data per request yang dibutuhkan lapisan bawah (misal audit log di Prisma extension) tanpa harus meneruskan req
+export type RequestContext = {
+  requestId: string;
+  ip?: string;
+  actorId?: string;
+  // Diisi oleh extension audit, ditulis ke audit_logs setelah respons sukses
+  audit: { model: string; id: string; operation: 'create' | 'update' | 'delete'; before: unknown }[];
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const getRequestContext = () => storage.getStore();
+export const runWithRequestContext = <T>(ctx: RequestContext, fn: () => T) => storage.run(ctx, fn);
@@ -1,4 +1,16 @@
-export type ApiSuccess<T> = { success: true; message: string; data: T; meta?: any };
-export type ApiError = { success: false; message: string; data?: undefined };
-export const ok = <T>(message: string, data: T, meta?: any): ApiSuccess<T> => ({ success: true, message, data, meta });
-export const fail = (message: string): ApiError => ({ success: false, message });
+import type { Pagination } from './query';
+export type ApiMeta = { pagination?: Pagination; [key: string]: unknown };
+export type FieldError = { in: 'params' | 'query' | 'body'; field: string; message: string };
+export type ApiSuccess<T> = { success: true; message: string; data: T; meta?: ApiMeta };
+export type ApiError = {
+  success: false;
+  message: string;
+  code: string;
+  request_id?: string;
+  details?: unknown;
+  errors?: FieldError[];
+  data?: undefined;
+};
+export const ok = <T>(message: string, data: T, meta?: ApiMeta): ApiSuccess<T> => ({ success: true, message, data, meta });
+export const fail = (message: string, code: string, extra: Partial<Pick<ApiError, 'request_id' | 'details' | 'errors'>> = {}): ApiError =>
+  ({ success: false, message, code, ...extra });
@@ -0,0 +1,4 @@
+import crypto from 'crypto';
+// Token acak untuk refresh token / link email; yang disimpan di database hanya hash-nya
+export const generateToken = (bytes = 48): string => crypto.randomBytes(bytes).toString('hex');
+export const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,18 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildOpenApi, checkDocs } from '../src/docs/openapi';
+
+// Route baru tanpa entri di src/docs/routes.ts (atau entri untuk route yang sudah dihapus) membuat npm test gagal
+
+test('setiap route terdokumentasi di routeDocs', () => {
+  const { undocumented, stale } = checkDocs();
+  assert.deepEqual(undocumented, [], 'route belum didokumentasikan di src/docs/routes.ts');
+  assert.deepEqual(stale, [], 'dokumentasi untuk route yang tidak ada');
+});
+
+// Dokumen juga harus bisa disusun (misal tidak ada schema zod yang gagal dikonversi)
+test('dokumen OpenAPI bisa disusun', () => {
+  const { paths } = buildOpenApi();
+  const operations = Object.values(paths).reduce((n, methods) => n + Object.keys(methods).length, 0);
+  assert.ok(operations > 0);
+});
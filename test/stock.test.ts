@@ -0,0 +1,210 @@
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+
+// Uji konkurensi stok terhadap database sungguhan (DATABASE_URL): order, reservasi, pelepasan dan kedaluwarsa
+// reservasi yang berjalan paralel untuk buku dengan stok sedikit. Semua data uji dihapus lagi di akhir.
+// Dilewati jika DATABASE_URL belum diisi; modul aplikasi baru di-import setelah itu supaya Prisma tidak dimuat.
+
+const STOCK = 3;
+const BUYERS = 12;
+
+const stamp = Date.now();
+
+type Modules = {
+  prisma: typeof import('../src/prisma/client').prisma;
+  transactions: typeof import('../src/services/transaction.service');
+  inventory: typeof import('../src/services/inventory.service');
+  cart: typeof import('../src/services/cart.service');
+  AppError: typeof import('../src/utils/errors').AppError;
+};
+
+describe('stok paralel', { skip: !process.env.DATABASE_URL && 'DATABASE_URL belum diisi' }, () => {
+  let m: Modules;
+  let refs: { genreId: string; authorId: string; publisherId: string };
+  let userIds: string[];
+  const bookIds: string[] = [];
+
+  before(async () => {
+    m = {
+      prisma: (await import('../src/prisma/client')).prisma,
+      transactions: await import('../src/services/transaction.service'),
+      inventory: await import('../src/services/inventory.service'),
+      cart: await import('../src/services/cart.service'),
+      AppError: (await import('../src/utils/errors')).AppError,
+    };
+    const genre = await m.prisma.genres.create({ data: { name: `race-genre-${stamp}` } });
+    const author = await m.prisma.authors.create({ data: { name: `race-author-${stamp}` } });
+    const publisher = await m.prisma.publishers.create({ data: { name: `race-publisher-${stamp}` } });
+    refs = { genreId: genre.id, authorId: author.id, publisherId: publisher.id };
+    const users = await Promise.all(
+      Array.from({ length: BUYERS }, (_, i) =>
+        m.prisma.users.create({ data: { email: `race-${stamp}-${i}@example.test`, password: 'x' } })
+      )
+    );
+    userIds = users.map((u) => u.id);
+  });
+
+  after(async () => {
+    if (!m) return;
+    const { prisma } = m;
+    // order_items ikut terhapus lewat cascade orders, reservasi dan subscription lewat cascade users
+    await prisma.stock_movements.deleteMany({ where: { book_id: { in: bookIds } } });
+    await prisma.notifications.deleteMany({ where: { user_id: { in: userIds } } });
+    await prisma.orders.deleteMany({ where: { user_id: { in: userIds } } });
+    await prisma.users.deleteMany({ where: { id: { in: userIds } } });
+    await prisma.books.deleteMany({ where: { id: { in: bookIds } } });
+    await prisma.genres.delete({ where: { id: refs.genreId } });
+    await prisma.authors.delete({ where: { id: refs.authorId } });
+    await prisma.publishers.delete({ where: { id: refs.publisherId } });
+    const entityIds = [...Object.values(refs), ...bookIds, ...userIds];
+    await prisma.audit_logs.deleteMany({ where: { entity_id: { in: entityIds } } });
+    await prisma.$disconnect();
+  });
+
+  // Buku baru per test dengan stok STOCK, supaya test tidak saling bergantung
+  async function createBook() {
+    const book = await m.prisma.books.create({
+      data: {
+        title: `race-book-${stamp}-${bookIds.length}`, author_id: refs.authorId, publisher_id: refs.publisherId,
+        publication_year: 2000, price: 10000, stock_quantity: 0, genre_id: refs.genreId,
+      },
+    });
+    bookIds.push(book.id);
+    await m.inventory.stockTransaction((tx) => m.inventory.setStock(tx, book.id, STOCK, undefined, 'Race test'));
+    return book.id;
+  }
+
+  // Hasil Promise.allSettled dikelompokkan per kode error
+  function summarize(results: PromiseSettledResult<unknown>[]) {
+    const codes = results.map((r) => (r.status === 'fulfilled' ? 'OK' : r.reason instanceof m.AppError ? r.reason.code : String(r.reason)));
+    return { ok: codes.filter((c) => c === 'OK').length, codes: [...new Set(codes)].sort() };
+  }
+
+  const order = (userId: string, bookId: string, quantity = 1) => m.transactions.create(userId, [{ book_id: bookId, quantity }]);
+  const reserved = async (bookId: string) =>
+    (await m.prisma.stock_reservations.aggregate({ where: { book_id: bookId }, _sum: { quantity: true } }))._sum.quantity ?? 0;
+
+  // Stok buku harus selalu sama dengan jumlah stock_movements dan tidak pernah negatif
+  async function assertLedger(bookId: string, stock: number) {
+    const [book, sum] = await Promise.all([
+      m.prisma.books.findUniqueOrThrow({ where: { id: bookId } }),
+      m.prisma.stock_movements.aggregate({ where: { book_id: bookId }, _sum: { quantity: true } }),
+    ]);
+    assert.equal(book.stock_quantity, stock, 'stock_quantity');
+    assert.equal(sum._sum.quantity ?? 0, stock, 'saldo stock_movements');
+  }
+
+  async function fillCarts(bookId: string, users: string[], quantity = 1) {
+    await m.prisma.cart_items.deleteMany({ where: { user_id: { in: users } } });
+    await m.prisma.cart_items.createMany({ data: users.map((user_id) => ({ user_id, book_id: bookId, quantity })) });
+  }
+
+  test('order paralel tidak menjual melebihi stok', async () => {
+    const bookId = await createBook();
+    const results = await Promise.allSettled(userIds.map((userId) => order(userId, bookId)));
+    const { ok, codes } = summarize(results);
+    assert.equal(ok, STOCK);
+    assert.deepEqual(codes, ['INSUFFICIENT_STOCK', 'OK']);
+    await assertLedger(bookId, 0);
+  });
+
+  test('reservasi paralel tidak menahan melebihi stok', async () => {
+    const bookId = await createBook();
+    await fillCarts(bookId, userIds);
+    const results = await Promise.allSettled(userIds.map((userId) => m.cart.reserve(userId)));
+    const { ok, codes } = summarize(results);
+    assert.equal(ok, STOCK);
+    assert.deepEqual(codes, ['INSUFFICIENT_STOCK', 'OK']);
+    assert.equal(await reserved(bookId), STOCK);
+    await assertLedger(bookId, 0);
+  });
+
+  test('stok yang direservasi hanya bisa dibeli pemegang reservasi', async () => {
+    const bookId = await createBook();
+    const [holder, ...others] = userIds;
+    await fillCarts(bookId, [holder], STOCK - 1);
+    await m.cart.reserve(holder);
+
+    const results = await Promise.allSettled([m.cart.checkout(holder), ...others.map((userId) => order(userId, bookId))]);
+    assert.equal(results[0].status, 'fulfilled', 'checkout pemegang reservasi');
+    assert.equal(summarize(results.slice(1)).ok, 1, `hanya 1 dari ${STOCK} eksemplar yang bebas`);
+    assert.equal(await reserved(bookId), 0, 'reservasi habis dipakai checkout');
+    await assertLedger(bookId, 0);
+  });
+
+  test('checkout paralel untuk cart yang sama hanya membuat satu order', async () => {
+    const bookId = await createBook();
+    const [holder] = userIds;
+    await fillCarts(bookId, [holder]);
+    const before = await m.prisma.orders.count({ where: { user_id: holder } });
+
+    const results = await Promise.allSettled([m.cart.checkout(holder), m.cart.checkout(holder)]);
+    const { ok, codes } = summarize(results);
+    assert.equal(ok, 1);
+    assert.deepEqual(codes, ['CART_EMPTY', 'OK']);
+    assert.equal(await m.prisma.orders.count({ where: { user_id: holder } }), before + 1);
+    await assertLedger(bookId, STOCK - 1);
+  });
+
+  test('reservasi yang dilepas mengembalikan stok', async () => {
+    const bookId = await createBook();
+    const [holder, ...others] = userIds;
+    await fillCarts(bookId, [holder]);
+    await m.cart.reserve(holder);
+    await assertLedger(bookId, STOCK - 1);
+
+    // Pelepasan berjalan bersamaan dengan order lain: stok yang kembali tidak boleh terjual dua kali
+    const results = await Promise.allSettled([m.cart.releaseReservation(holder), ...others.map((userId) => order(userId, bookId))]);
+    assert.equal(results[0].status, 'fulfilled', 'release');
+    const sold = summarize(results.slice(1)).ok;
+    assert.ok(sold >= STOCK - 1 && sold <= STOCK, `${sold} order berhasil`);
+    assert.equal(await reserved(bookId), 0);
+    await assertLedger(bookId, STOCK - sold);
+    await assert.rejects(m.cart.releaseReservation(holder), { code: 'RESERVATION_NOT_FOUND' });
+  });
+
+  test('reservasi kedaluwarsa dilepas oleh sweep dan oleh order berikutnya', async () => {
+    const bookId = await createBook();
+    const [first, second, ...others] = userIds;
+    await fillCarts(bookId, [first, second]);
+    await m.cart.reserve(first);
+    await m.cart.reserve(second);
+    await assertLedger(bookId, STOCK - 2);
+    const expire = (userId: string) =>
+      m.prisma.stock_reservations.updateMany({ where: { user_id: userId }, data: { expires_at: new Date(Date.now() - 1000) } });
+
+    await expire(first);
+    await m.inventory.sweepExpiredReservations();
+    assert.equal(await reserved(bookId), 1, 'hanya reservasi yang kedaluwarsa yang dilepas sweep');
+    await assertLedger(bookId, STOCK - 1);
+
+    // Tanpa sweep: order paralel mengembalikan stok reservasi kedaluwarsa lalu mengambilnya, tepat sekali
+    await expire(second);
+    const results = await Promise.allSettled(others.map((userId) => order(userId, bookId)));
+    assert.equal(summarize(results).ok, STOCK);
+    assert.equal(await reserved(bookId), 0);
+    await assertLedger(bookId, 0);
+  });
+
+  // Reservasi yang dilepas lalu langsung ditahan ulang atau dibeli bukan stok yang kembali: subscriber tidak dikabari
+  // sampai stok benar-benar naik (order dibatalkan)
+  test('back-in-stock hanya dikirim saat stok benar-benar naik', async () => {
+    const bookId = await createBook();
+    const [holder, subscriber] = userIds;
+    await fillCarts(bookId, [holder], STOCK);
+    await m.cart.reserve(holder);
+    await m.prisma.stock_subscriptions.create({ data: { user_id: subscriber, book_id: bookId } });
+    const notified = () => m.prisma.notifications.count({ where: { user_id: subscriber, type: 'back_in_stock' } });
+    const subscribed = () => m.prisma.stock_subscriptions.count({ where: { user_id: subscriber, book_id: bookId } });
+
+    await m.cart.reserve(holder);
+    const placed = await m.cart.checkout(holder);
+    assert.equal(await notified(), 0, 'reservasi ulang dan checkout tidak mengirim notifikasi');
+    assert.equal(await subscribed(), 1, 'subscription tetap ada selama buku habis');
+
+    await m.transactions.transition(placed.id, 'cancelled', holder);
+    assert.equal(await notified(), 1, 'pembatalan order mengirim notifikasi');
+    assert.equal(await subscribed(), 0, 'subscription terpakai');
+  });
+});